@@ -0,0 +1,176 @@
+/**
+ * BackupPanel Component
+ * Download all progress as a JSON file and restore it on this or another
+ * device, merging with or replacing the current data
+ */
+
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle2, Download, Upload } from 'lucide-react';
+import {
+  BackupError,
+  downloadBackup,
+  exportBackup,
+  importBackup,
+  type BackupSection,
+  type ImportMode,
+  type ImportReport
+} from '@/lib/backup';
+import { toast } from 'sonner';
+
+const SECTION_LABELS: Record<BackupSection, string> = {
+  cards: 'Cartões de revisão',
+  reviewLog: 'Histórico de revisões',
+  cardFlags: 'Cartões marcados',
+  completedLessons: 'Lições concluídas',
+  streakData: 'Dias de estudo',
+  learnedWords: 'Palavras aprendidas',
+  phraseStatuses: 'Frases praticadas',
+  settings: 'Configurações'
+};
+
+interface BackupPanelProps {
+  onImported?: (report: ImportReport) => void;
+}
+
+export function BackupPanel({ onImported }: BackupPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      downloadBackup(await exportBackup());
+      toast.success('Backup salvo!', { duration: 2000 });
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      toast.error('Não foi possível criar o backup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    if (
+      mode === 'replace' &&
+      !window.confirm('Substituir o progresso deste dispositivo pelo do backup?')
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await importBackup(await file.text(), mode);
+      setReport(result);
+      onImported?.(result);
+      toast.success('Backup importado!', { duration: 2000 });
+    } catch (error) {
+      setReport(null);
+      if (error instanceof BackupError) {
+        toast.error(error.message);
+      } else {
+        console.error('Failed to import backup:', error);
+        toast.error('Não foi possível importar o backup');
+      }
+    } finally {
+      setBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup do Progresso</CardTitle>
+        <CardDescription>
+          Salve seu progresso em um arquivo e restaure em outro dispositivo
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Button onClick={handleExport} disabled={busy} className="w-full">
+          <Download className="w-4 h-4 mr-2" />
+          Exportar Backup
+        </Button>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Button
+              variant={mode === 'merge' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMode('merge')}
+              className="flex-1"
+            >
+              Mesclar
+            </Button>
+            <Button
+              variant={mode === 'replace' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMode('replace')}
+              className="flex-1"
+            >
+              Substituir
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {mode === 'merge'
+              ? 'Combina o backup com o progresso atual, mantendo a revisão mais recente de cada palavra.'
+              : 'Apaga o progresso atual das seções presentes no backup.'}
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="w-full"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Importar Backup
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-center gap-2 font-semibold text-foreground">
+              <CheckCircle2 className="w-5 h-5 text-green-500" />
+              Importação concluída
+              {report.fromVersion < 1 && (
+                <Badge variant="secondary">Formato antigo convertido</Badge>
+              )}
+            </div>
+            <ul className="space-y-1 text-sm">
+              {(Object.keys(report.sections) as BackupSection[]).map(section => (
+                <li key={section} className="flex justify-between">
+                  <span className="text-muted-foreground">{SECTION_LABELS[section]}</span>
+                  <span className="font-medium">{report.sections[section]?.imported}</span>
+                </li>
+              ))}
+            </ul>
+            {report.issues.length > 0 && (
+              <div className="space-y-1 text-xs text-orange-600">
+                {report.issues.map(issue => (
+                  <p key={issue} className="flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                    {issue}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
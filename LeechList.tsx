@@ -0,0 +1,185 @@
+/**
+ * LeechList Component
+ * Words forgotten again and again ("leeches"), with focused remediation:
+ * study the word on a flashcard with its example, then reset or suspend it
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  PauseCircle,
+  PlayCircle,
+  RotateCcw
+} from 'lucide-react';
+import { CardFlags } from '@/lib/cardFlags';
+import { LEECH_THRESHOLD, SpacedRepetitionSystem } from '@/lib/spacedRepetition';
+import { WordDictionary } from '@/lib/dictionary';
+import { useWordDictionary } from '@/hooks/useWordDictionary';
+import { WordFlashcard } from '@/components/WordFlashcard';
+import { toast } from 'sonner';
+
+interface LeechListProps {
+  onBack?: () => void;
+}
+
+// Leech cards with their suspended flag
+function loadLeeches() {
+  return SpacedRepetitionSystem.getLeeches().map(card => ({
+    word: card.word,
+    lapses: card.lapses,
+    suspended: CardFlags.get(card.word).suspended,
+  }));
+}
+
+export function LeechList({ onBack }: LeechListProps) {
+  const [leeches, setLeeches] = useState(loadLeeches);
+  const [studyIndex, setStudyIndex] = useState<number | null>(null);
+  // Word details fill in once the lessons are loaded
+  useWordDictionary();
+
+  const refresh = () => setLeeches(loadLeeches());
+
+  const handleReset = (word: string) => {
+    SpacedRepetitionSystem.resetLapses(word);
+    CardFlags.unsuspend(word);
+    toast.success(`"${word}" voltou para a fila normal`, { duration: 2000 });
+    setStudyIndex(null);
+    refresh();
+  };
+
+  const handleToggleSuspend = (word: string, suspended: boolean) => {
+    if (suspended) {
+      CardFlags.unsuspend(word);
+    } else {
+      CardFlags.suspend(word);
+    }
+    refresh();
+  };
+
+  if (leeches.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center space-y-4">
+          <CheckCircle2 className="w-16 h-16 text-green-500 mx-auto" />
+          <h2 className="text-2xl font-bold text-foreground">
+            Nenhuma Palavra Problemática!
+          </h2>
+          <p className="text-muted-foreground">
+            Palavras esquecidas {LEECH_THRESHOLD} vezes ou mais aparecem aqui para um reforço especial.
+          </p>
+          {onBack && (
+            <Button variant="outline" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Voltar
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (studyIndex !== null && leeches[studyIndex]) {
+    const leech = leeches[studyIndex];
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => setStudyIndex(null)}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Lista
+          </Button>
+          <Badge variant="outline" className="border-red-500/50 text-red-600">
+            Esquecida {leech.lapses} {leech.lapses === 1 ? 'vez' : 'vezes'}
+          </Badge>
+        </div>
+
+        <WordFlashcard
+          word={WordDictionary.resolve(leech.word)}
+          index={studyIndex}
+          total={leeches.length}
+          onNext={() => setStudyIndex((studyIndex + 1) % leeches.length)}
+          onPrevious={() => setStudyIndex((studyIndex - 1 + leeches.length) % leeches.length)}
+        />
+
+        <p className="text-sm text-center text-muted-foreground">
+          Leia o exemplo em voz alta e crie sua própria frase com a palavra antes de voltar a revisá-la.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Button variant="outline" onClick={() => handleToggleSuspend(leech.word, leech.suspended)}>
+            {leech.suspended ? (
+              <>
+                <PlayCircle className="w-4 h-4 mr-2" />
+                Reativar
+              </>
+            ) : (
+              <>
+                <PauseCircle className="w-4 h-4 mr-2" />
+                Suspender
+              </>
+            )}
+          </Button>
+          <Button onClick={() => handleReset(leech.word)}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Já aprendi
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <CardTitle>Palavras Problemáticas</CardTitle>
+        </div>
+        <CardDescription>
+          Palavras esquecidas {LEECH_THRESHOLD} vezes ou mais. Estude-as com calma antes da próxima revisão.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-2">
+        {leeches.map((leech, idx) => {
+          const entry = WordDictionary.lookup(leech.word);
+
+          return (
+            <div
+              key={leech.word}
+              className="flex items-center justify-between p-3 rounded-lg border hover:bg-muted/50 cursor-pointer"
+              onClick={() => setStudyIndex(idx)}
+            >
+              <div className="min-w-0">
+                <div className="font-semibold text-foreground">{entry?.word ?? leech.word}</div>
+                {entry?.portuguese && (
+                  <div className="text-sm text-muted-foreground truncate">{entry.portuguese}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {leech.suspended && (
+                  <Badge variant="secondary">Suspensa</Badge>
+                )}
+                <Badge variant="outline" className="border-red-500/50 text-red-600">
+                  {leech.lapses}×
+                </Badge>
+              </div>
+            </div>
+          );
+        })}
+
+        {onBack && (
+          <Button variant="outline" className="w-full mt-4" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Voltar
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
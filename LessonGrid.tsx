@@ -3,7 +3,7 @@
  * Visual 16-week calendar with hover effects and progress tracking
  */
 
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -15,10 +15,12 @@ import {
   RotateCcw
 } from 'lucide-react';
 import type { Lesson } from '@/types/lesson';
+import { WordDictionary } from '@/lib/dictionary';
+import { LearnerProgress } from '@/lib/learnerProgress';
 
 interface LessonGridProps {
   lessons: Lesson[];
-  completedLessons: number[];
+  completedLessons?: number[]; // Read from LearnerProgress when omitted
   currentLesson?: number;
   onLessonClick: (lessonDay: number) => void;
   allowSkip?: boolean; // If false, lessons must be completed sequentially
@@ -26,12 +28,17 @@ interface LessonGridProps {
 
 export function LessonGrid({
   lessons,
-  completedLessons,
+  completedLessons = LearnerProgress.getCompletedLessons(),
   currentLesson,
   onLessonClick,
   allowSkip = false,
 }: LessonGridProps) {
-  
+  // The grid always has the full curriculum; index its words in case the
+  // app didn't load the dictionary at startup
+  useEffect(() => {
+    WordDictionary.load(lessons);
+  }, [lessons]);
+
   // Group lessons by week
   const weekGroups = useMemo(() => {
     const groups: Lesson[][] = [];
@@ -0,0 +1,154 @@
+/**
+ * MatchingBoard Component
+ * Match English words to their translations by click, keyboard or drag
+ */
+
+import { useState } from 'react';
+import { motion, PanInfo } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, GripVertical } from 'lucide-react';
+import type { MatchingPair } from '@/lib/quizEngine';
+
+interface MatchingBoardProps {
+  pairs: MatchingPair[];
+  options: string[]; // Right-hand column, already shuffled
+  onPairAttempt?: (pairIndex: number, answer: string, correct: boolean) => void;
+  onComplete?: () => void;
+  disabled?: boolean;
+}
+
+export function MatchingBoard({
+  pairs,
+  options,
+  onPairAttempt,
+  onComplete,
+  disabled = false,
+}: MatchingBoardProps) {
+  const [selectedWord, setSelectedWord] = useState<number | null>(null);
+  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [matched, setMatched] = useState<Record<number, number>>({}); // pair index -> option index
+  const [wrongFlash, setWrongFlash] = useState<{ word: number; option: number } | null>(null);
+
+  const matchedOptions = new Set(Object.values(matched));
+
+  const attemptMatch = (pairIndex: number, optionIndex: number) => {
+    if (disabled || matched[pairIndex] !== undefined || matchedOptions.has(optionIndex)) return;
+
+    const answer = options[optionIndex];
+    const correct = answer === pairs[pairIndex].match;
+    onPairAttempt?.(pairIndex, answer, correct);
+
+    setSelectedWord(null);
+    setSelectedOption(null);
+
+    if (correct) {
+      const next = { ...matched, [pairIndex]: optionIndex };
+      setMatched(next);
+      if (Object.keys(next).length === pairs.length) {
+        onComplete?.();
+      }
+    } else {
+      setWrongFlash({ word: pairIndex, option: optionIndex });
+      setTimeout(() => setWrongFlash(null), 600);
+    }
+  };
+
+  const selectWord = (pairIndex: number) => {
+    if (selectedOption !== null) {
+      attemptMatch(pairIndex, selectedOption);
+    } else {
+      setSelectedWord(prev => (prev === pairIndex ? null : pairIndex));
+    }
+  };
+
+  const selectOption = (optionIndex: number) => {
+    if (selectedWord !== null) {
+      attemptMatch(selectedWord, optionIndex);
+    } else {
+      setSelectedOption(prev => (prev === optionIndex ? null : optionIndex));
+    }
+  };
+
+  // Drop a dragged word onto whichever option sits under the pointer
+  const handleDragEnd = (pairIndex: number, info: PanInfo) => {
+    const target = document
+      .elementFromPoint(info.point.x - window.scrollX, info.point.y - window.scrollY)
+      ?.closest('[data-option-index]');
+    if (!target) return;
+
+    const optionIndex = Number(target.getAttribute('data-option-index'));
+    attemptMatch(pairIndex, optionIndex);
+  };
+
+  const getWordClass = (pairIndex: number) => {
+    if (matched[pairIndex] !== undefined) return 'border-green-500 bg-green-500/10';
+    if (wrongFlash?.word === pairIndex) return 'border-red-500 bg-red-500/10';
+    if (selectedWord === pairIndex) return 'border-primary ring-2 ring-primary/20';
+    return '';
+  };
+
+  const getOptionClass = (optionIndex: number) => {
+    if (matchedOptions.has(optionIndex)) return 'border-green-500 bg-green-500/10';
+    if (wrongFlash?.option === optionIndex) return 'border-red-500 bg-red-500/10';
+    if (selectedOption === optionIndex) return 'border-primary ring-2 ring-primary/20';
+    return '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {/* English Words */}
+        <div className="space-y-2">
+          {pairs.map((pair, pairIndex) => {
+            const isMatched = matched[pairIndex] !== undefined;
+            return (
+              <motion.div
+                key={pair.word}
+                drag={!disabled && !isMatched}
+                dragSnapToOrigin
+                whileDrag={{ scale: 1.05, zIndex: 10 }}
+                onDragEnd={(_, info) => handleDragEnd(pairIndex, info)}
+                className="relative"
+              >
+                <Button
+                  variant="outline"
+                  size="lg"
+                  className={`w-full justify-start h-auto py-3 font-semibold touch-none ${getWordClass(pairIndex)}`}
+                  onClick={() => selectWord(pairIndex)}
+                  disabled={disabled || isMatched}
+                  aria-pressed={selectedWord === pairIndex}
+                >
+                  <GripVertical className="w-4 h-4 mr-2 text-muted-foreground" />
+                  {pair.word}
+                  {isMatched && <CheckCircle2 className="ml-auto w-4 h-4 text-green-600" />}
+                </Button>
+              </motion.div>
+            );
+          })}
+        </div>
+
+        {/* Translations */}
+        <div className="space-y-2">
+          {options.map((option, optionIndex) => (
+            <Button
+              key={option}
+              data-option-index={optionIndex}
+              variant="outline"
+              size="lg"
+              className={`w-full justify-start text-left h-auto py-3 whitespace-normal ${getOptionClass(optionIndex)}`}
+              onClick={() => selectOption(optionIndex)}
+              disabled={disabled || matchedOptions.has(optionIndex)}
+              aria-pressed={selectedOption === optionIndex}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-center text-muted-foreground">
+        Toque em uma palavra e depois na tradução, ou arraste a palavra até ela
+      </p>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 /**
  * MultiTypeQuiz Component
- * Multiple quiz types: Multiple Choice, Fill-in-Blank, Listening, Matching
+ * Multiple quiz types: Multiple Choice, Fill-in-Blank, Listening, Matching,
+ * reverse (Portuguese → English) choice and typed recall, Definition and Dictation
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -16,205 +17,561 @@ import {
   Volume2,
   Lightbulb,
   Trophy,
-  RotateCcw
+  RotateCcw,
+  Timer,
+  Zap
 } from 'lucide-react';
 import { speakWord } from '@/lib/audioUtils';
+import { WordDictionary } from '@/lib/dictionary';
+import {
+  generateQuiz,
+  generateRetryQuestion,
+  createRandom,
+  createSeed,
+  DEFAULT_QUIZ_TYPES,
+  TYPED_QUIZ_TYPES,
+  type QuizType,
+  type QuizWord,
+  type QuizQuestion,
+  type QuizSeed
+} from '@/lib/quizEngine';
+import { gradeAnswer, type GradeResult, type GradingStrictness } from '@/lib/answerGrading';
+import { getHintLadder, scoreWithHints, HINT_PENALTY } from '@/lib/quizHints';
+import { recordQuizOutcomes, type QuizOutcome } from '@/lib/quizReviewBridge';
+import { LearnerProgress } from '@/lib/learnerProgress';
+import { computeSpeedPoints } from '@/lib/quizScoring';
+import { useCountdown } from '@/hooks/useCountdown';
+import { useWordDictionary } from '@/hooks/useWordDictionary';
+import { MatchingBoard } from '@/components/MatchingBoard';
+import { ProfileScope } from '@/components/ProfileScope';
 import { toast } from 'sonner';
 import confetti from 'canvas-confetti';
 
-export type QuizType = 'multiple-choice' | 'fill-blank' | 'listening' | 'matching';
+export type { QuizType, QuizWord } from '@/lib/quizEngine';
+
+interface QuizAnswer {
+  answer: string;
+  correct: boolean;
+  hintsUsed: number;
+  points: number; // 1 for a clean correct answer, less when hints were used
+  retry: boolean; // Retries of missed words don't count towards the score
+  almost: boolean;
+  responseTimeMs: number;
+  timedOut?: boolean;
+}
 
-export interface QuizWord {
-  word: string;
-  definition?: string;
-  portuguese?: string;
-  example?: string;
+export interface QuizTimerConfig {
+  mode: 'per-question' | 'total'; // Countdown per question, or "as many as you can"
+  seconds: number;
 }
 
-interface QuizQuestion {
-  type: QuizType;
-  word: QuizWord;
-  correctAnswer: string;
-  options?: string[]; // For multiple choice
-  sentence?: string; // For fill-in-blank (with ___ placeholder)
+export interface QuizSummary {
+  seed: QuizSeed;
+  correctCount: number; // Scored items answered right; each matching pair is one item
+  hintsUsed: number;
+  questionsWithHints: number;
+  hintsByWord: Record<string, number>;
+  retriedWords: string[];
+  timedOut: number;
+  speedScore?: number; // Timed mode only
+  bestStreak?: number; // Timed mode only
 }
 
+// Time budget used for speed bonuses when there's no per-question limit
+const SPEED_REFERENCE_MS = 10000;
+
 interface MultiTypeQuizProps {
   words: QuizWord[];
+  phrases?: string[]; // Lesson phrases for fill-in-blank sentences
   questionsPerRound?: number;
-  onComplete?: (score: number, total: number) => void;
+  onComplete?: (score: number, total: number, summary: QuizSummary) => void;
   quizTypes?: QuizType[];
+  seed?: QuizSeed; // Fixed seed to replay a quiz (e.g. daily challenge)
+  strictness?: GradingStrictness; // How forgiving typed answers are
+  retryMissed?: boolean; // Re-ask missed words at the end of the round until correct
+  adaptive?: boolean; // Harder question types for words answered right repeatedly
+  updateSchedule?: boolean; // Record answers as spaced repetition reviews
+  timer?: QuizTimerConfig; // Speed round
+  lessonDay?: number; // Lesson this quiz closes; marked complete when a round is finished
+}
+
+// Answers are recorded for one learner: start the round over on a switch
+export function MultiTypeQuiz(props: MultiTypeQuizProps) {
+  return (
+    <ProfileScope>
+      <MultiTypeQuizScreen {...props} />
+    </ProfileScope>
+  );
 }
 
-export function MultiTypeQuiz({
-  words,
+function MultiTypeQuizScreen({
+  words: providedWords,
+  phrases,
   questionsPerRound = 10,
   onComplete,
-  quizTypes = ['multiple-choice', 'fill-blank', 'listening'],
+  quizTypes = DEFAULT_QUIZ_TYPES,
+  seed,
+  strictness = 'normal',
+  retryMissed = false,
+  adaptive = false,
+  updateSchedule = false,
+  timer,
+  lessonDay,
 }: MultiTypeQuizProps) {
+  // Fill in translations, definitions and examples the caller didn't provide
+  const dictionaryVersion = useWordDictionary();
+  const words = useMemo(
+    () => providedWords.map(w => WordDictionary.enrich(w)),
+    [providedWords, dictionaryVersion]
+  );
+  const [roundSeed, setRoundSeed] = useState<QuizSeed>(() => seed ?? createSeed());
+  // Rounds played since the seed was set; a fixed seed still gets fresh
+  // questions on "Jogar de novo"
+  const [round, setRound] = useState(0);
+  const quizSeed: QuizSeed = round > 0 ? `${roundSeed}:round:${round}` : roundSeed;
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [generated, setGenerated] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<number, { answer: string; correct: boolean }>>({});
+  // Keyed by question index, or "questionIndex:pairIndex" for matching pairs
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [hintsUsed, setHintsUsed] = useState<Record<number, number>>({}); // question index -> hints revealed
   const [userAnswer, setUserAnswer] = useState('');
   const [showResult, setShowResult] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
+  const [grade, setGrade] = useState<GradeResult | null>(null);
   const [quizComplete, setQuizComplete] = useState(false);
+  const [speedScore, setSpeedScore] = useState(0);
+  const [answerStreak, setAnswerStreak] = useState(0);
+  const [bestStreak, setBestStreak] = useState(0);
+  const [timeUp, setTimeUp] = useState(false);
+  // Read only when a round is generated, so answering doesn't regenerate questions
+  const streaksRef = useRef<Record<string, number>>({});
+  const questionStartRef = useRef(Date.now());
+
+  useEffect(() => {
+    if (seed === undefined) return;
+    setRoundSeed(seed);
+    setRound(0);
+  }, [seed]);
 
   // Generate questions
   useEffect(() => {
-    const generated = generateQuestions(words, questionsPerRound, quizTypes);
-    setQuestions(generated);
-  }, [words, questionsPerRound, quizTypes]);
+    const generatedQuestions = generateQuiz(
+      words,
+      {
+        questionCount: questionsPerRound,
+        types: quizTypes,
+        phrases,
+        streaks: adaptive ? streaksRef.current : undefined,
+      },
+      quizSeed
+    );
+    setQuestions(generatedQuestions);
+    setGenerated(true);
+  }, [words, phrases, questionsPerRound, quizTypes, quizSeed, adaptive]);
+
+  useEffect(() => {
+    questionStartRef.current = Date.now();
+  }, [currentIndex, questions]);
 
   const currentQuestion = questions[currentIndex];
+  const timeLimitMs = (timer?.seconds ?? 0) * 1000;
+  const { remainingMs, isPaused } = useCountdown({
+    durationMs: timeLimitMs,
+    running: !!timer && questions.length > 0 && !quizComplete && (timer.mode === 'total' || !showResult),
+    resetKey: timer?.mode === 'per-question' ? `${quizSeed}:${currentIndex}` : quizSeed,
+    onExpire: () => {
+      timeoutCurrentQuestion();
+      if (timer?.mode === 'total') setTimeUp(true);
+    },
+  });
+
   const progress = ((currentIndex + 1) / questions.length) * 100;
-  const score = Object.values(answers).filter(a => a.correct).length;
-
-  const generateQuestions = (
-    wordList: QuizWord[],
-    count: number,
-    types: QuizType[]
-  ): QuizQuestion[] => {
-    const shuffled = [...wordList].sort(() => Math.random() - 0.5);
-    const selected = shuffled.slice(0, Math.min(count, wordList.length));
-
-    return selected.map(word => {
-      const type = types[Math.floor(Math.random() * types.length)];
-      
-      switch (type) {
-        case 'multiple-choice':
-          return generateMultipleChoice(word, wordList);
-        case 'fill-blank':
-          return generateFillBlank(word);
-        case 'listening':
-          return generateListening(word, wordList);
-        default:
-          return generateMultipleChoice(word, wordList);
+  const scoredAnswers = Object.values(answers).filter(a => !a.retry);
+  const score = scoredAnswers.reduce((sum, a) => sum + a.points, 0);
+  const displayScore = Math.round(score * 100) / 100;
+  // In a total-time round only the questions reached count
+  const countedQuestions = timer?.mode === 'total' ? questions.slice(0, currentIndex + 1) : questions;
+  const totalPoints = countedQuestions
+    .filter(q => q.retryOf === undefined)
+    .reduce((sum, q) => sum + (q.pairs?.length ?? 1), 0);
+  const hasMatching = countedQuestions.some(q => q.pairs && q.retryOf === undefined);
+  const hintLadder = currentQuestion ? getHintLadder(currentQuestion) : [];
+  const revealedHints = hintLadder.slice(0, hintsUsed[currentIndex] ?? 0);
+  const eliminatedOptions = new Set(revealedHints.flatMap(h => h.eliminated ?? []));
+
+  const buildSummary = (): QuizSummary => {
+    const hintsByWord: Record<string, number> = {};
+    Object.entries(hintsUsed).forEach(([index, count]) => {
+      const question = questions[Number(index)];
+      if (question && count > 0) {
+        hintsByWord[question.word.word] = (hintsByWord[question.word.word] ?? 0) + count;
       }
     });
-  };
-
-  const generateMultipleChoice = (word: QuizWord, allWords: QuizWord[]): QuizQuestion => {
-    const wrongOptions = allWords
-      .filter(w => w.word !== word.word && w.portuguese)
-      .sort(() => Math.random() - 0.5)
-      .slice(0, 3)
-      .map(w => w.portuguese!);
-    
-    const options = [...wrongOptions, word.portuguese!].sort(() => Math.random() - 0.5);
 
     return {
-      type: 'multiple-choice',
-      word,
-      correctAnswer: word.portuguese!,
-      options,
+      seed: quizSeed,
+      correctCount: scoredAnswers.filter(a => a.correct).length,
+      hintsUsed: Object.values(hintsUsed).reduce((sum, count) => sum + count, 0),
+      questionsWithHints: Object.values(hintsUsed).filter(count => count > 0).length,
+      hintsByWord,
+      retriedWords: Array.from(new Set(questions.filter(q => q.retryOf !== undefined).map(q => q.word.word))),
+      timedOut: Object.values(answers).filter(a => a.timedOut).length,
+      speedScore: timer ? speedScore : undefined,
+      bestStreak: timer ? bestStreak : undefined,
     };
   };
 
-  const generateFillBlank = (word: QuizWord): QuizQuestion => {
-    const sentence = word.example || `The ___ is important.`;
-    return {
-      type: 'fill-blank',
-      word,
-      correctAnswer: word.word.toLowerCase(),
-      sentence: sentence.replace(new RegExp(word.word, 'gi'), '___'),
+  const addSpeedPoints = (correct: boolean, responseTimeMs: number) => {
+    if (!timer) return;
+
+    const streak = correct ? answerStreak + 1 : 0;
+    setAnswerStreak(streak);
+    setBestStreak(prev => Math.max(prev, streak));
+    setSpeedScore(prev => prev + computeSpeedPoints(
+      correct,
+      responseTimeMs,
+      streak,
+      timer.mode === 'per-question' ? timeLimitMs : SPEED_REFERENCE_MS
+    ));
+  };
+
+  const updateStreak = (word: string, correct: boolean) => {
+    streaksRef.current = {
+      ...streaksRef.current,
+      [word]: correct ? (streaksRef.current[word] ?? 0) + 1 : 0,
     };
   };
 
-  const generateListening = (word: QuizWord, allWords: QuizWord[]): QuizQuestion => {
-    const wrongOptions = allWords
-      .filter(w => w.word !== word.word)
-      .sort(() => Math.random() - 0.5)
-      .slice(0, 3)
-      .map(w => w.word);
-    
-    const options = [...wrongOptions, word.word].sort(() => Math.random() - 0.5);
+  // Words whose most recent attempt this round was wrong
+  const getMissedWords = () => {
+    const latest = new Map<string, { word: QuizWord; type: QuizType; index: number; correct: boolean }>();
+
+    questions.forEach((question, index) => {
+      if (question.pairs) {
+        question.pairs.forEach((pair, pairIndex) => {
+          const answer = answers[`${index}:${pairIndex}`];
+          const word = words.find(w => w.word === pair.word);
+          if (answer && word) {
+            latest.set(pair.word, { word, type: question.type, index, correct: answer.correct });
+          }
+        });
+      } else if (answers[index]) {
+        latest.set(question.word.word, {
+          word: question.word,
+          type: question.type,
+          index,
+          correct: answers[index].correct,
+        });
+      }
+    });
+
+    return Array.from(latest.values()).filter(entry => !entry.correct);
+  };
 
-    return {
-      type: 'listening',
-      word,
-      correctAnswer: word.word.toLowerCase(),
-      options,
-    };
+  const revealHint = () => {
+    if (showResult || revealedHints.length >= hintLadder.length) return;
+    setHintsUsed(prev => ({ ...prev, [currentIndex]: (prev[currentIndex] ?? 0) + 1 }));
   };
 
   const playListeningQuestion = async () => {
-    if (currentQuestion.type === 'listening') {
+    if (currentQuestion.type === 'listening' || currentQuestion.type === 'dictation') {
       await speakWord(currentQuestion.word.word);
     }
   };
 
   const checkAnswer = (answer: string) => {
-    const correct = answer.toLowerCase().trim() === currentQuestion.correctAnswer.toLowerCase().trim();
+    // Picking from options must be exact; only typed answers get tolerance
+    const result = gradeAnswer(
+      answer,
+      currentQuestion.acceptedAnswers ?? currentQuestion.correctAnswer,
+      currentQuestion.options ? 'strict' : strictness
+    );
+    const correct = result.correct;
     setIsCorrect(correct);
+    setGrade(result);
     setShowResult(true);
 
-    answers[currentIndex] = { answer, correct };
+    const questionHints = hintsUsed[currentIndex] ?? 0;
+    const responseTimeMs = Date.now() - questionStartRef.current;
+    answers[currentIndex] = {
+      answer,
+      correct,
+      hintsUsed: questionHints,
+      points: scoreWithHints(correct, questionHints),
+      retry: currentQuestion.retryOf !== undefined,
+      almost: result.verdict === 'almost',
+      responseTimeMs,
+    };
     setAnswers({ ...answers });
+    updateStreak(currentQuestion.word.word, correct);
+    addSpeedPoints(correct, responseTimeMs);
 
-    if (correct) {
+    if (correct && result.verdict === 'almost') {
+      toast.success('Correto! Cuidado com a ortografia ✍️', { duration: 1500 });
+    } else if (correct) {
       toast.success('Correto! 🎉', { duration: 1500 });
       confetti({
         particleCount: 50,
         spread: 60,
         origin: { y: 0.6 }
       });
+    } else if (result.verdict === 'almost') {
+      toast.info('Quase! Confira a diferença.', { duration: 1500 });
     } else {
       toast.error('Incorreto. Tente novamente!', { duration: 1500 });
     }
   };
 
-  const handleNext = () => {
-    if (currentIndex < questions.length - 1) {
-      setCurrentIndex(prev => prev + 1);
-      setUserAnswer('');
-      setShowResult(false);
-      setIsCorrect(false);
-    } else {
-      setQuizComplete(true);
-      onComplete?.(score, questions.length);
+  const recordPairAnswer = (pairIndex: number, answer: string, correct: boolean) => {
+    const key = `${currentIndex}:${pairIndex}`;
+    // Only the first attempt at each pair counts towards the score
+    if (!answers[key]) {
+      updateStreak(currentQuestion.pairs![pairIndex].word, correct);
+    }
+    setAnswers(prev => (
+      prev[key]
+        ? prev
+        : {
+            ...prev,
+            [key]: {
+              answer,
+              correct,
+              hintsUsed: 0,
+              points: correct ? 1 : 0,
+              retry: false,
+              almost: false,
+              responseTimeMs: Date.now() - questionStartRef.current,
+            },
+          }
+    ));
+  };
+
+  const completeMatching = () => {
+    const pairCount = currentQuestion.pairs?.length ?? 0;
+    const firstTryCorrect = Array.from({ length: pairCount }).every(
+      (_, pairIndex) => answers[`${currentIndex}:${pairIndex}`]?.correct !== false
+    );
+    setIsCorrect(firstTryCorrect);
+    setShowResult(true);
+    addSpeedPoints(firstTryCorrect, Date.now() - questionStartRef.current);
+
+    if (firstTryCorrect) {
+      toast.success('Todos os pares corretos! 🎉', { duration: 1500 });
       confetti({
-        particleCount: 100,
-        spread: 70,
+        particleCount: 50,
+        spread: 60,
         origin: { y: 0.6 }
       });
+    } else {
+      toast.info('Pares completos! Revise os que errou.', { duration: 1500 });
+    }
+  };
+
+  const timeoutCurrentQuestion = () => {
+    if (showResult || !currentQuestion) return;
+
+    const timedOut: QuizAnswer = {
+      answer: '',
+      correct: false,
+      hintsUsed: hintsUsed[currentIndex] ?? 0,
+      points: 0,
+      retry: currentQuestion.retryOf !== undefined,
+      almost: false,
+      responseTimeMs: Date.now() - questionStartRef.current,
+      timedOut: true,
+    };
+
+    // Unanswered matching pairs time out individually
+    const updates: Record<string, QuizAnswer> = {};
+    if (currentQuestion.pairs) {
+      currentQuestion.pairs.forEach((pair, pairIndex) => {
+        const key = `${currentIndex}:${pairIndex}`;
+        if (!answers[key]) {
+          updates[key] = { ...timedOut, hintsUsed: 0 };
+          updateStreak(pair.word, false);
+        }
+      });
+    } else {
+      updates[currentIndex] = timedOut;
+      updateStreak(currentQuestion.word.word, false);
+    }
+    setAnswers(prev => ({ ...prev, ...updates }));
+
+    setIsCorrect(false);
+    setGrade(null);
+    setShowResult(true);
+    addSpeedPoints(false, timedOut.responseTimeMs);
+    toast.error('Tempo esgotado! ⏰', { duration: 1500 });
+  };
+
+  const getOutcomes = (): QuizOutcome[] => {
+    const outcomes: QuizOutcome[] = [];
+    questions.forEach((question, index) => {
+      if (question.retryOf !== undefined) return;
+
+      const entries = question.pairs
+        ? question.pairs.map((pair, pairIndex) => ({ word: pair.word, answer: answers[`${index}:${pairIndex}`] }))
+        : [{ word: question.word.word, answer: answers[index] }];
+
+      entries.forEach(({ word, answer }) => {
+        if (!answer) return;
+        outcomes.push({
+          word,
+          type: question.type,
+          correct: answer.correct,
+          almost: answer.almost,
+          hintsUsed: answer.hintsUsed,
+          responseTimeMs: answer.responseTimeMs,
+        });
+      });
+    });
+    return outcomes;
+  };
+
+  const goToNextQuestion = () => {
+    setCurrentIndex(prev => prev + 1);
+    setUserAnswer('');
+    setShowResult(false);
+    setIsCorrect(false);
+    setGrade(null);
+  };
+
+  const finishQuiz = () => {
+    setQuizComplete(true);
+    if (lessonDay !== undefined) LearnerProgress.completeLesson(lessonDay);
+    if (updateSchedule) {
+      const leeches = recordQuizOutcomes(getOutcomes());
+      if (leeches.length > 0) {
+        toast.warning(
+          `${leeches.map(word => `"${word}"`).join(', ')} ${leeches.length === 1 ? 'virou sanguessuga' : 'viraram sanguessugas'}: palavras esquecidas muitas vezes precisam de atenção extra.`,
+          { duration: 4000 }
+        );
+      }
+    }
+    onComplete?.(score, totalPoints, buildSummary());
+    confetti({
+      particleCount: 100,
+      spread: 70,
+      origin: { y: 0.6 }
+    });
+  };
+
+  // Latest finishQuiz (it reads this render's answers and score)
+  const finishQuizRef = useRef(finishQuiz);
+  useEffect(() => {
+    finishQuizRef.current = finishQuiz;
+  });
+
+  // The round ends when total time runs out; finish on the next render so
+  // the timed-out answer is included in the score
+  useEffect(() => {
+    if (timeUp && !quizComplete) finishQuizRef.current();
+  }, [timeUp, quizComplete]);
+
+  const handleNext = () => {
+    // Retrying doesn't fit a round that ends when the clock runs out
+    const canRetry = retryMissed && timer?.mode !== 'total';
+    const missed = canRetry && currentIndex === questions.length - 1 ? getMissedWords() : [];
+
+    if (currentIndex < questions.length - 1) {
+      goToNextQuestion();
+    } else if (missed.length > 0) {
+      const random = createRandom(`${quizSeed}:retry:${questions.length}`);
+      const config = { questionCount: missed.length, types: quizTypes, phrases };
+      const retries = missed.map(entry =>
+        generateRetryQuestion(entry.word, entry.type, entry.index, words, config, random)
+      );
+      setQuestions(prev => [...prev, ...retries]);
+      goToNextQuestion();
+      toast.info(
+        `Vamos revisar ${missed.length === 1 ? 'a palavra que você errou' : `as ${missed.length} palavras que você errou`}`,
+        { duration: 2000 }
+      );
+    } else if (timer?.mode === 'total') {
+      // Keep going until the time is up
+      const more = generateQuiz(
+        words,
+        { questionCount: questionsPerRound, types: quizTypes, phrases },
+        `${quizSeed}:more:${questions.length}`
+      );
+      setQuestions(prev => [...prev, ...more]);
+      goToNextQuestion();
+    } else {
+      finishQuiz();
     }
   };
 
   const restartQuiz = () => {
     setCurrentIndex(0);
     setAnswers({});
+    setHintsUsed({});
     setUserAnswer('');
     setShowResult(false);
+    setGrade(null);
     setQuizComplete(false);
-    const generated = generateQuestions(words, questionsPerRound, quizTypes);
-    setQuestions(generated);
+    setSpeedScore(0);
+    setAnswerStreak(0);
+    setBestStreak(0);
+    setTimeUp(false);
+    setRoundSeed(seed ?? createSeed());
+    setRound(prev => prev + 1);
   };
 
   if (questions.length === 0) {
     return (
       <Card>
         <CardContent className="p-8 text-center">
-          <p className="text-muted-foreground">Carregando quiz...</p>
+          <p className="text-muted-foreground">
+            {generated
+              ? 'Não há palavras disponíveis para este quiz.'
+              : 'Carregando quiz...'}
+          </p>
         </CardContent>
       </Card>
     );
   }
 
   if (quizComplete) {
-    const percentage = Math.round((score / questions.length) * 100);
+    const percentage = Math.round((score / totalPoints) * 100);
+    const summary = buildSummary();
     return (
       <Card>
         <CardContent className="p-8 space-y-6">
           <div className="text-center space-y-4">
             <Trophy className="w-16 h-16 text-yellow-500 mx-auto" />
-            <h2 className="text-3xl font-bold text-foreground">Quiz Completo!</h2>
+            <h2 className="text-3xl font-bold text-foreground">
+              {timeUp ? 'Tempo Esgotado!' : 'Quiz Completo!'}
+            </h2>
             <div className="text-6xl font-bold text-primary">
               {percentage}%
             </div>
             <p className="text-lg text-muted-foreground">
-              Você acertou {score} de {questions.length} questões
+              Você fez {displayScore} de {totalPoints} pontos
             </p>
+            {hasMatching && (
+              <p className="text-sm text-muted-foreground">
+                Cada par do exercício de ligar vale 1 ponto
+              </p>
+            )}
+            {summary.hintsUsed > 0 && (
+              <p className="text-sm text-muted-foreground">
+                <Lightbulb className="w-4 h-4 inline mr-1 text-blue-600" />
+                {summary.hintsUsed} {summary.hintsUsed === 1 ? 'dica usada' : 'dicas usadas'} em{' '}
+                {summary.questionsWithHints} {summary.questionsWithHints === 1 ? 'questão' : 'questões'}
+              </p>
+            )}
+            {timer && (
+              <div className="flex items-center justify-center gap-6 text-sm">
+                <span className="flex items-center gap-1 font-semibold text-yellow-600">
+                  <Zap className="w-4 h-4" />
+                  {speedScore} pontos
+                </span>
+                <span className="text-muted-foreground">
+                  Melhor sequência: {bestStreak}
+                </span>
+              </div>
+            )}
             
             {percentage === 100 && (
               <p className="text-green-600 font-semibold">
@@ -243,7 +600,7 @@ export function MultiTypeQuiz({
               <RotateCcw className="w-4 h-4 mr-2" />
               Tentar Novamente
             </Button>
-            <Button size="lg" onClick={() => onComplete?.(score, questions.length)}>
+            <Button size="lg" onClick={() => onComplete?.(score, totalPoints, summary)}>
               Continuar
             </Button>
           </div>
@@ -263,10 +620,29 @@ export function MultiTypeQuiz({
                 Questão {currentIndex + 1} de {questions.length}
               </Badge>
               <span className="text-sm font-medium">
-                Pontuação: {score}/{questions.length}
+                Pontuação: {displayScore}/{totalPoints} pts
               </span>
             </div>
             <Progress value={progress} className="h-2" />
+            {timer && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    <Timer className="w-4 h-4" />
+                    {isPaused ? 'Pausado' : `${Math.ceil(remainingMs / 1000)}s`}
+                  </span>
+                  <span className="flex items-center gap-1 font-medium text-yellow-600">
+                    <Zap className="w-4 h-4" />
+                    {speedScore}
+                    {answerStreak >= 3 && ` · 🔥 ${answerStreak}`}
+                  </span>
+                </div>
+                <Progress
+                  value={timeLimitMs > 0 ? (remainingMs / timeLimitMs) * 100 : 0}
+                  className={`h-1 ${remainingMs <= 5000 ? '[&>div]:bg-red-500' : '[&>div]:bg-yellow-500'}`}
+                />
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -287,25 +663,45 @@ export function MultiTypeQuiz({
                   {currentQuestion.type === 'multiple-choice' && 'Escolha a Tradução'}
                   {currentQuestion.type === 'fill-blank' && 'Complete a Frase'}
                   {currentQuestion.type === 'listening' && 'Quiz de Audição'}
+                  {currentQuestion.type === 'matching' && 'Ligue os Pares'}
+                  {currentQuestion.type === 'reverse-choice' && 'Escolha a Palavra em Inglês'}
+                  {currentQuestion.type === 'reverse-typed' && 'Traduza para o Inglês'}
+                  {currentQuestion.type === 'definition' && 'Qual é a Palavra?'}
+                  {currentQuestion.type === 'dictation' && 'Ditado'}
                 </CardTitle>
+                {currentQuestion.retryOf !== undefined && (
+                  <Badge variant="secondary" className="ml-auto mr-2">
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Revisão
+                  </Badge>
+                )}
                 <Badge>
                   {currentQuestion.type === 'multiple-choice' && '📝'}
                   {currentQuestion.type === 'fill-blank' && '✍️'}
                   {currentQuestion.type === 'listening' && '🎧'}
+                  {currentQuestion.type === 'matching' && '🔗'}
+                  {currentQuestion.type === 'reverse-choice' && '🔄'}
+                  {currentQuestion.type === 'reverse-typed' && '⌨️'}
+                  {currentQuestion.type === 'definition' && '📖'}
+                  {currentQuestion.type === 'dictation' && '✏️'}
                 </Badge>
               </div>
             </CardHeader>
 
             <CardContent className="space-y-6">
-              {/* Multiple Choice */}
-              {currentQuestion.type === 'multiple-choice' && (
+              {/* Multiple Choice (both directions) */}
+              {(currentQuestion.type === 'multiple-choice' || currentQuestion.type === 'reverse-choice') && (
                 <div className="space-y-4">
                   <div className="text-center p-6 bg-muted/50 rounded-lg">
                     <h3 className="text-3xl font-bold text-foreground">
-                      {currentQuestion.word.word}
+                      {currentQuestion.type === 'multiple-choice'
+                        ? currentQuestion.word.word
+                        : currentQuestion.word.portuguese}
                     </h3>
                     <p className="text-sm text-muted-foreground mt-2">
-                      Qual é a tradução em português?
+                      {currentQuestion.type === 'multiple-choice'
+                        ? 'Qual é a tradução em português?'
+                        : 'Qual é a palavra em inglês?'}
                     </p>
                   </div>
 
@@ -328,9 +724,11 @@ export function MultiTypeQuiz({
                             checkAnswer(option);
                           }
                         }}
-                        disabled={showResult}
+                        disabled={showResult || eliminatedOptions.has(option)}
                       >
-                        {option}
+                        <span className={eliminatedOptions.has(option) ? 'line-through opacity-50' : ''}>
+                          {option}
+                        </span>
                         {showResult && option === currentQuestion.correctAnswer && (
                           <CheckCircle2 className="ml-auto w-5 h-5 text-green-600" />
                         )}
@@ -345,13 +743,57 @@ export function MultiTypeQuiz({
 
               {/* Fill in the Blank */}
               {currentQuestion.type === 'fill-blank' && (
-                <div className="space-y-4">
-                  <div className="p-6 bg-muted/50 rounded-lg">
-                    <p className="text-lg text-foreground leading-relaxed">
-                      {currentQuestion.sentence}
-                    </p>
-                  </div>
+                <div className="p-6 bg-muted/50 rounded-lg">
+                  <p className="text-lg text-foreground leading-relaxed">
+                    {currentQuestion.sentence}
+                  </p>
+                </div>
+              )}
 
+              {/* Portuguese → English */}
+              {currentQuestion.type === 'reverse-typed' && (
+                <div className="text-center p-6 bg-muted/50 rounded-lg">
+                  <h3 className="text-3xl font-bold text-foreground">
+                    {currentQuestion.word.portuguese}
+                  </h3>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Escreva a palavra em inglês
+                  </p>
+                </div>
+              )}
+
+              {/* Definition → Word */}
+              {currentQuestion.type === 'definition' && (
+                <div className="p-6 bg-muted/50 rounded-lg">
+                  <p className="text-lg text-foreground leading-relaxed">
+                    {currentQuestion.word.definition}
+                  </p>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Escreva a palavra em inglês que corresponde a esta definição
+                  </p>
+                </div>
+              )}
+
+              {/* Dictation */}
+              {currentQuestion.type === 'dictation' && (
+                <div className="text-center p-6 bg-muted/50 rounded-lg space-y-4">
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    onClick={playListeningQuestion}
+                  >
+                    <Volume2 className="w-5 h-5 mr-2" />
+                    Ouvir Palavra
+                  </Button>
+                  <p className="text-sm text-muted-foreground">
+                    Ouça a palavra e escreva o que ouviu
+                  </p>
+                </div>
+              )}
+
+              {/* Typed Answer */}
+              {TYPED_QUIZ_TYPES.includes(currentQuestion.type) && (
+                <div className="space-y-4">
                   <div className="space-y-3">
                     <Input
                       placeholder="Digite sua resposta..."
@@ -379,12 +821,37 @@ export function MultiTypeQuiz({
                   </div>
 
                   {showResult && (
-                    <div className={`p-4 rounded-lg ${
-                      isCorrect ? 'bg-green-500/10 border border-green-500/20' : 'bg-red-500/10 border border-red-500/20'
+                    <div className={`p-4 rounded-lg space-y-2 ${
+                      isCorrect
+                        ? 'bg-green-500/10 border border-green-500/20'
+                        : grade?.verdict === 'almost'
+                        ? 'bg-orange-500/10 border border-orange-500/20'
+                        : 'bg-red-500/10 border border-red-500/20'
                     }`}>
                       <p className="text-sm font-medium">
-                        {isCorrect ? '✓ Correto!' : `✗ A resposta correta é: "${currentQuestion.correctAnswer}"`}
+                        {isCorrect && grade?.verdict !== 'almost' && '✓ Correto!'}
+                        {isCorrect && grade?.verdict === 'almost' && `✓ Quase perfeito! A grafia correta é: "${grade.matchedAnswer}"`}
+                        {!isCorrect && grade?.verdict === 'almost' && `≈ Quase! A resposta correta é: "${grade.matchedAnswer}"`}
+                        {!isCorrect && grade?.verdict !== 'almost' && `✗ A resposta correta é: "${currentQuestion.correctAnswer}"`}
                       </p>
+                      {grade?.verdict === 'almost' && (
+                        <p className="font-mono text-lg tracking-wide">
+                          {grade.diff.map((segment, idx) => (
+                            <span
+                              key={idx}
+                              className={
+                                segment.type === 'missing'
+                                  ? 'text-green-700 dark:text-green-300 underline'
+                                  : segment.type === 'extra'
+                                  ? 'text-red-600 line-through'
+                                  : ''
+                              }
+                            >
+                              {segment.text}
+                            </span>
+                          ))}
+                        </p>
+                      )}
                     </div>
                   )}
                 </div>
@@ -426,9 +893,11 @@ export function MultiTypeQuiz({
                             checkAnswer(option);
                           }
                         }}
-                        disabled={showResult}
+                        disabled={showResult || eliminatedOptions.has(option)}
                       >
-                        {option}
+                        <span className={eliminatedOptions.has(option) ? 'line-through opacity-50' : ''}>
+                          {option}
+                        </span>
                         {showResult && option.toLowerCase() === currentQuestion.correctAnswer && (
                           <CheckCircle2 className="ml-2 w-5 h-5 text-green-600" />
                         )}
@@ -438,16 +907,64 @@ export function MultiTypeQuiz({
                 </div>
               )}
 
-              {/* Hint */}
-              {!showResult && currentQuestion.word.definition && (
-                <div className="flex items-start gap-2 p-3 bg-blue-500/10 rounded-lg border border-blue-500/20">
-                  <Lightbulb className="w-4 h-4 text-blue-600 flex-shrink-0 mt-0.5" />
-                  <p className="text-sm text-blue-700 dark:text-blue-300">
-                    <strong>Dica:</strong> {currentQuestion.word.definition}
+              {/* Matching */}
+              {currentQuestion.type === 'matching' && currentQuestion.pairs && (
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground text-center">
+                    Ligue cada palavra à sua {currentQuestion.matchBy === 'portuguese' ? 'tradução' : 'definição'}
                   </p>
+
+                  <MatchingBoard
+                    pairs={currentQuestion.pairs}
+                    options={currentQuestion.options ?? []}
+                    onPairAttempt={recordPairAnswer}
+                    onComplete={completeMatching}
+                    disabled={showResult}
+                  />
+
+                  {showResult && (
+                    <div className={`p-4 rounded-lg ${
+                      isCorrect ? 'bg-green-500/10 border border-green-500/20' : 'bg-orange-500/10 border border-orange-500/20'
+                    }`}>
+                      <p className="text-sm font-medium">
+                        {isCorrect
+                          ? '✓ Todos os pares corretos na primeira tentativa!'
+                          : `Você acertou ${currentQuestion.pairs.filter((_, i) => answers[`${currentIndex}:${i}`]?.correct).length} de ${currentQuestion.pairs.length} pares na primeira tentativa`}
+                      </p>
+                    </div>
+                  )}
                 </div>
               )}
 
+              {/* Hints */}
+              {revealedHints.length > 0 && (
+                <div className="space-y-2">
+                  {revealedHints.map((hint, idx) => (
+                    <div
+                      key={hint.kind}
+                      className="flex items-start gap-2 p-3 bg-blue-500/10 rounded-lg border border-blue-500/20"
+                    >
+                      <Lightbulb className="w-4 h-4 text-blue-600 flex-shrink-0 mt-0.5" />
+                      <p className="text-sm text-blue-700 dark:text-blue-300">
+                        <strong>Dica {idx + 1}:</strong> {hint.text}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {!showResult && revealedHints.length < hintLadder.length && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full text-blue-700 dark:text-blue-300"
+                  onClick={revealHint}
+                >
+                  <Lightbulb className="w-4 h-4 mr-2" />
+                  {revealedHints.length === 0 ? 'Pedir uma Dica' : 'Mais uma Dica'} (-{Math.round(HINT_PENALTY * 100)}% nesta questão)
+                </Button>
+              )}
+
               {/* Next Button */}
               {showResult && (
                 <Button
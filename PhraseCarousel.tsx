@@ -18,6 +18,9 @@ import {
 } from 'lucide-react';
 import { speakPhrase } from '@/lib/audioUtils';
 import { highlightPhrase } from '@/lib/phraseHighlighter';
+import { WordDictionary, type DictionaryEntry } from '@/lib/dictionary';
+import { useWordDictionary } from '@/hooks/useWordDictionary';
+import { PhraseProgress } from '@/lib/phraseProgress';
 import { toast } from 'sonner';
 
 export interface PhraseData {
@@ -46,6 +49,8 @@ export function PhraseCarousel({
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
   const [direction, setDirection] = useState<'left' | 'right'>('right');
   const [phraseStatuses, setPhraseStatuses] = useState<Record<number, ReviewStatus>>({});
+  // The glossary below fills in once the lessons are loaded
+  useWordDictionary();
 
   // Convert string arrays to PhraseData objects
   const normalizedPhrases: PhraseData[] = phrases.map(phrase => 
@@ -54,10 +59,23 @@ export function PhraseCarousel({
       : { ...phrase, highlighted: phrase.highlighted || highlightWords }
   );
 
+  // Statuses saved on earlier visits (or restored from a backup)
+  useEffect(() => {
+    const saved = PhraseProgress.getAll();
+    setPhraseStatuses(
+      Object.fromEntries(normalizedPhrases.map((phrase, idx) => [idx, saved[phrase.english] ?? null]))
+    );
+  }, [phrases]);
+
   const currentPhrase = normalizedPhrases[currentIndex];
   const isLastPhrase = currentIndex === normalizedPhrases.length - 1;
   const isFirstPhrase = currentIndex === 0;
 
+  // Translations of the highlighted vocabulary, when the dictionary has them
+  const glossary = (currentPhrase.highlighted ?? [])
+    .map(word => WordDictionary.lookup(word))
+    .filter((entry): entry is DictionaryEntry => !!entry?.portuguese);
+
   // Calculate progress
   const completedCount = Object.values(phraseStatuses).filter(s => s !== null).length;
   const progress = (completedCount / normalizedPhrases.length) * 100;
@@ -104,6 +122,7 @@ export function PhraseCarousel({
 
   const markPhraseStatus = (status: ReviewStatus) => {
     setPhraseStatuses(prev => ({ ...prev, [currentIndex]: status }));
+    PhraseProgress.set(currentPhrase.english, status);
     
     if (status === 'confident') {
       toast.success('Ótimo! 🎉', { duration: 1500 });
@@ -271,6 +290,15 @@ export function PhraseCarousel({
                               {currentPhrase.portuguese}
                             </p>
                           </div>
+                          {glossary.length > 0 && (
+                            <div className="mt-4 pt-4 border-t border-secondary flex flex-wrap gap-2">
+                              {glossary.map(entry => (
+                                <Badge key={entry.word} variant="outline" className="text-sm">
+                                  <strong className="mr-1">{entry.word}</strong> {entry.portuguese}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                         </motion.div>
                       )}
                     </AnimatePresence>
@@ -0,0 +1,18 @@
+/**
+ * ProfileScope Component
+ * Remounts its children when the active learner profile changes (in this
+ * tab or another one), so a screen holding one learner's queue or answers
+ * starts over with the next learner's data
+ */
+
+import { Fragment, type ReactNode } from 'react';
+import { useActiveProfile } from '@/hooks/useProfiles';
+
+interface ProfileScopeProps {
+  children: ReactNode;
+}
+
+export function ProfileScope({ children }: ProfileScopeProps) {
+  const activeProfile = useActiveProfile();
+  return <Fragment key={activeProfile.id}>{children}</Fragment>;
+}
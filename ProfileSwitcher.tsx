@@ -0,0 +1,317 @@
+/**
+ * ProfileSwitcher Component
+ * Learner profiles on a shared device: switch between them, create new
+ * ones, protect them with a PIN, and export or delete a profile's progress
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Download, Lock, LockOpen, Trash2, UserPlus, X } from 'lucide-react';
+import {
+  PROFILE_AVATARS,
+  ProfileError,
+  Profiles,
+  type Profile
+} from '@/lib/profiles';
+import { backupFileName, downloadBackup, exportBackup } from '@/lib/backup';
+import { useActiveProfile, useProfiles } from '@/hooks/useProfiles';
+import { toast } from 'sonner';
+
+type ProfileAction = 'switch' | 'export' | 'delete';
+
+interface PinRequest {
+  profile: Profile;
+  action: ProfileAction;
+}
+
+interface ProfileSwitcherProps {
+  onSwitch?: (profile: Profile) => void;
+}
+
+export function ProfileSwitcher({ onSwitch }: ProfileSwitcherProps) {
+  const profiles = useProfiles();
+  const activeProfile = useActiveProfile();
+
+  const [pinRequest, setPinRequest] = useState<PinRequest | null>(null);
+  const [pin, setPin] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newAvatar, setNewAvatar] = useState(PROFILE_AVATARS[1]);
+  const [editingPin, setEditingPin] = useState(false);
+  const [newPin, setNewPin] = useState('');
+  const [currentPin, setCurrentPin] = useState('');
+
+  const showError = (error: unknown) => {
+    if (error instanceof ProfileError) {
+      toast.error(error.message);
+    } else {
+      console.error('Profile action failed:', error);
+      toast.error('Algo deu errado. Tente novamente.');
+    }
+  };
+
+  const runAction = async (profile: Profile, action: ProfileAction, enteredPin?: string) => {
+    try {
+      if (action === 'switch') {
+        await Profiles.switchTo(profile.id, enteredPin);
+        toast.success(`Olá, ${profile.name}! ${profile.avatar}`, { duration: 2000 });
+        onSwitch?.(profile);
+      } else if (action === 'export') {
+        const backup = await exportBackup(new Date(), profile.id);
+        downloadBackup(backup, backupFileName(new Date(), profile.name));
+      } else {
+        if (!window.confirm(`Excluir o perfil "${profile.name}" e todo o seu progresso? Isso não pode ser desfeito.`)) {
+          return;
+        }
+        await Profiles.delete(profile.id);
+        toast.success(`Perfil "${profile.name}" excluído`, { duration: 2000 });
+      }
+      setPinRequest(null);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  // Other learners' profiles ask for their PIN before any action
+  const requestAction = (profile: Profile, action: ProfileAction) => {
+    if (profile.id !== activeProfile.id && Profiles.hasPin(profile.id)) {
+      setPin('');
+      setPinRequest({ profile, action });
+      return;
+    }
+    runAction(profile, action);
+  };
+
+  const submitPin = async () => {
+    if (!pinRequest) return;
+    if (!(await Profiles.verifyPin(pinRequest.profile.id, pin))) {
+      toast.error('PIN incorreto.');
+      setPin('');
+      return;
+    }
+    runAction(pinRequest.profile, pinRequest.action, pin);
+  };
+
+  const handleCreate = () => {
+    try {
+      Profiles.create(newName, newAvatar);
+      setNewName('');
+      setCreating(false);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const startEditingPin = () => {
+    setNewPin('');
+    setCurrentPin('');
+    setEditingPin(true);
+  };
+
+  // A PIN that is already set has to be entered before it can be changed
+  const handleSavePin = async (value: string | null) => {
+    try {
+      await Profiles.setPin(activeProfile.id, value, currentPin);
+      toast.success(value ? 'PIN definido' : 'PIN removido', { duration: 2000 });
+      setNewPin('');
+      setCurrentPin('');
+      setEditingPin(false);
+    } catch (error) {
+      setCurrentPin('');
+      showError(error);
+    }
+  };
+
+  const activeHasPin = Boolean(activeProfile.pinHash);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Perfis</CardTitle>
+        <CardDescription>
+          Cada pessoa tem seu próprio progresso, lições e sequência de estudos
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {profiles.map(profile => {
+            const isActive = profile.id === activeProfile.id;
+
+            return (
+              <div
+                key={profile.id}
+                className={`flex items-center gap-3 rounded-lg border p-3 ${
+                  isActive ? 'border-primary bg-primary/5' : ''
+                }`}
+              >
+                <button
+                  type="button"
+                  className="flex flex-1 items-center gap-3 text-left"
+                  onClick={() => !isActive && requestAction(profile, 'switch')}
+                  disabled={isActive}
+                >
+                  <span className="text-3xl">{profile.avatar}</span>
+                  <span className="font-semibold text-foreground">{profile.name}</span>
+                  {profile.pinHash && <Lock className="w-4 h-4 text-muted-foreground" />}
+                  {isActive && <Badge variant="secondary">Ativo</Badge>}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => requestAction(profile, 'export')}
+                  title="Exportar progresso"
+                >
+                  <Download className="w-4 h-4" />
+                </Button>
+                {!isActive && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => requestAction(profile, 'delete')}
+                    title="Excluir perfil"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {pinRequest && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">
+                PIN de {pinRequest.profile.avatar} {pinRequest.profile.name}
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setPinRequest(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoFocus
+                placeholder="••••"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && pin) submitPin();
+                }}
+              />
+              <Button onClick={submitPin} disabled={!pin}>
+                Confirmar
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {creating ? (
+          <div className="space-y-3 rounded-lg border p-4">
+            <Input
+              autoFocus
+              placeholder="Nome do perfil"
+              value={newName}
+              maxLength={30}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && newName.trim()) handleCreate();
+              }}
+            />
+            <div className="flex flex-wrap gap-2">
+              {PROFILE_AVATARS.map(avatar => (
+                <button
+                  key={avatar}
+                  type="button"
+                  onClick={() => setNewAvatar(avatar)}
+                  className={`rounded-lg p-1 text-2xl ${
+                    newAvatar === avatar ? 'bg-primary/20 ring-2 ring-primary' : ''
+                  }`}
+                >
+                  {avatar}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setCreating(false)} className="flex-1">
+                Cancelar
+              </Button>
+              <Button onClick={handleCreate} disabled={!newName.trim()} className="flex-1">
+                Criar Perfil
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={() => setCreating(true)} className="w-full">
+            <UserPlus className="w-4 h-4 mr-2" />
+            Novo Perfil
+          </Button>
+        )}
+
+        {editingPin ? (
+          <div className="flex gap-2">
+            {activeHasPin ? (
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoFocus
+                placeholder="PIN atual"
+                value={currentPin}
+                maxLength={8}
+                onChange={(e) => setCurrentPin(e.target.value.replace(/\D/g, ''))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && currentPin) handleSavePin(null);
+                }}
+              />
+            ) : (
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoFocus
+                placeholder="Novo PIN (4 a 8 números)"
+                value={newPin}
+                maxLength={8}
+                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+              />
+            )}
+            {activeHasPin ? (
+              <Button onClick={() => handleSavePin(null)} disabled={!currentPin}>
+                Remover
+              </Button>
+            ) : (
+              <Button onClick={() => handleSavePin(newPin)} disabled={newPin.length < 4}>
+                Salvar
+              </Button>
+            )}
+            <Button variant="ghost" onClick={() => setEditingPin(false)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={startEditingPin}
+            className="w-full"
+          >
+            {activeHasPin ? (
+              <>
+                <LockOpen className="w-4 h-4 mr-2" />
+                Remover PIN de {activeProfile.name}
+              </>
+            ) : (
+              <>
+                <Lock className="w-4 h-4 mr-2" />
+                Proteger {activeProfile.name} com PIN
+              </>
+            )}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,6 @@
  * Shows words due for spaced repetition review
  */
 
-import { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -15,24 +14,35 @@ import {
   TrendingUp, 
   ArrowRight,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  History
 } from 'lucide-react';
-import { SpacedRepetitionSystem } from '@/lib/spacedRepetition';
+import {
+  useDueCards,
+  useReviewHistory,
+  useReviewStats,
+  useTodayQueue,
+  useUpcomingCards,
+} from '@/hooks/useReviewStore';
 
 interface ReviewQueueWidgetProps {
   onStartReview?: () => void;
 }
 
 export function ReviewQueueWidget({ onStartReview }: ReviewQueueWidgetProps) {
-  const stats = useMemo(() => SpacedRepetitionSystem.getStats(), []);
-  const dueCards = useMemo(() => SpacedRepetitionSystem.getDueCards(), []);
-  const upcomingCards = useMemo(() => SpacedRepetitionSystem.getUpcomingCards(7), []);
+  const stats = useReviewStats();
+  const dueCards = useDueCards();
+  const upcomingCards = useUpcomingCards(7);
+  // What today's session will actually show, after the daily limits
+  const dueToday = useTodayQueue().length;
+  const history = useReviewHistory(30);
+  const reviewsThisWeek = history.reviewsPerDay.reduce((sum, day) => sum + day.count, 0);
 
   const retentionRate = stats.totalCards > 0
     ? Math.round(((stats.masteredCards + stats.learningCards) / stats.totalCards) * 100)
     : 0;
 
-  const hasDueReviews = stats.dueToday > 0;
+  const hasDueReviews = dueToday > 0;
 
   return (
     <Card className={hasDueReviews ? 'border-2 border-primary' : ''}>
@@ -45,7 +55,7 @@ export function ReviewQueueWidget({ onStartReview }: ReviewQueueWidgetProps) {
           {hasDueReviews && (
             <Badge variant="default" className="animate-pulse">
               <AlertCircle className="w-3 h-3 mr-1" />
-              {stats.dueToday} {stats.dueToday === 1 ? 'palavra' : 'palavras'}
+              {dueToday} {dueToday === 1 ? 'palavra' : 'palavras'}
             </Badge>
           )}
         </div>
@@ -63,7 +73,7 @@ export function ReviewQueueWidget({ onStartReview }: ReviewQueueWidgetProps) {
             className="text-center p-4 bg-primary/10 rounded-lg border border-primary/20"
           >
             <div className="text-3xl font-bold text-primary mb-1">
-              {stats.dueToday}
+              {dueToday}
             </div>
             <div className="text-sm text-muted-foreground">
               Revisões Hoje
@@ -143,6 +153,38 @@ export function ReviewQueueWidget({ onStartReview }: ReviewQueueWidgetProps) {
           </div>
         </div>
 
+        {/* Review History */}
+        {reviewsThisWeek > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <History className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm font-medium text-muted-foreground">
+                Histórico de Revisões
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="p-2 bg-muted/50 rounded-lg">
+                <div className="text-lg font-bold text-foreground">
+                  {history.trueRetention !== null ? `${Math.round(history.trueRetention * 100)}%` : '-'}
+                </div>
+                <div className="text-xs text-muted-foreground">Retenção (30d)</div>
+              </div>
+              <div className="p-2 bg-muted/50 rounded-lg">
+                <div className="text-lg font-bold text-foreground">
+                  {reviewsThisWeek}
+                </div>
+                <div className="text-xs text-muted-foreground">Revisões (7d)</div>
+              </div>
+              <div className="p-2 bg-muted/50 rounded-lg">
+                <div className="text-lg font-bold text-foreground">
+                  {history.averageTimeMs !== null ? `${(history.averageTimeMs / 1000).toFixed(1)}s` : '-'}
+                </div>
+                <div className="text-xs text-muted-foreground">Tempo Médio</div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Total Cards */}
         <div className="pt-4 border-t">
           <div className="flex items-center justify-between text-sm">
@@ -161,14 +203,16 @@ export function ReviewQueueWidget({ onStartReview }: ReviewQueueWidgetProps) {
             onClick={onStartReview}
           >
             <Brain className="w-4 h-4 mr-2" />
-            Começar Revisão ({stats.dueToday})
+            Começar Revisão ({dueToday})
             <ArrowRight className="w-4 h-4 ml-2" />
           </Button>
         ) : (
           <div className="text-center p-4 bg-muted/50 rounded-lg">
             <CheckCircle2 className="w-8 h-8 text-green-500 mx-auto mb-2" />
             <p className="text-sm font-medium text-foreground">
-              Parabéns! Sem revisões pendentes hoje!
+              {dueCards.length > 0
+                ? 'Parabéns! Limite diário de revisões atingido!'
+                : 'Parabéns! Sem revisões pendentes hoje!'}
             </p>
             <p className="text-xs text-muted-foreground mt-1">
               {upcomingCards.length > 0 
@@ -3,7 +3,7 @@
  * Spaced repetition review session with quality rating
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -17,7 +17,12 @@ import {
   Zap,
   Volume2,
   Trophy,
-  RotateCcw
+  RotateCcw,
+  Undo2,
+  Play,
+  Moon,
+  PauseCircle,
+  AlertTriangle
 } from 'lucide-react';
 import { 
   SpacedRepetitionSystem, 
@@ -25,42 +30,203 @@ import {
   type ReviewCard 
 } from '@/lib/spacedRepetition';
 import { speakWord } from '@/lib/audioUtils';
+import { WordDictionary } from '@/lib/dictionary';
+import { useWordDictionary } from '@/hooks/useWordDictionary';
+import { ReviewUndoStack, type PendingReview } from '@/lib/reviewUndo';
+import { SessionStore, type SavedSession } from '@/lib/sessionPersistence';
+import { DailyLimits } from '@/lib/dailyLimits';
+import { CardFlags } from '@/lib/cardFlags';
+import { Profiles } from '@/lib/profiles';
+import { ProfileScope } from '@/components/ProfileScope';
+import { formatInterval } from '@/lib/scheduler';
+import { DAY_MS } from '@/lib/srsConstants';
+import {
+  DEFAULT_LEARNING_STEPS,
+  answerCurrent,
+  createSessionQueue,
+  formatStep,
+  remainingCount,
+  previewStep,
+  removeCurrent,
+  type SessionQueue,
+} from '@/lib/learningSteps';
 import { toast } from 'sonner';
 import confetti from 'canvas-confetti';
 
 interface ReviewSessionProps {
-  onComplete?: (cardsReviewed: number) => void;
+  onComplete?: (cardsReviewed: number, counts: ReviewCounts) => void;
   maxCards?: number;
+  learningSteps?: number[]; // Minutes between relearning steps for AGAIN cards
+  onOpenLeeches?: () => void; // Shows the LeechList, offered when a card becomes a leech
 }
 
-export function ReviewSession({
+interface ReviewCounts {
+  again: number;
+  hard: number;
+  good: number;
+  easy: number;
+}
+
+const QUALITY_KEYS: Record<string, ReviewQuality> = {
+  '1': ReviewQuality.AGAIN,
+  '2': ReviewQuality.HARD,
+  '3': ReviewQuality.GOOD,
+  '4': ReviewQuality.EASY,
+};
+
+// Everything a rating changes, so undo can put it back
+interface SessionSnapshot {
+  queue: SessionQueue<ReviewCard>;
+  reviewCount: ReviewCounts;
+  relearned: string[];
+  flagged?: { word: string; action: 'suspend' | 'bury' };
+}
+
+// What is saved so a reload can pick the session back up
+interface SavedSessionState {
+  cards: ReviewCard[];
+  queue: SessionQueue<ReviewCard>;
+  reviewCount: ReviewCounts;
+  relearned: string[];
+}
+
+// The queue and undo history belong to one learner: start over on a switch
+export function ReviewSession(props: ReviewSessionProps) {
+  return (
+    <ProfileScope>
+      <ReviewSessionScreen {...props} />
+    </ProfileScope>
+  );
+}
+
+function ReviewSessionScreen({
   onComplete,
   maxCards = 20,
+  learningSteps = DEFAULT_LEARNING_STEPS,
+  onOpenLeeches,
 }: ReviewSessionProps) {
   const [cards, setCards] = useState<ReviewCard[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [cardsLoaded, setCardsLoaded] = useState(false);
+  const [limitReached, setLimitReached] = useState(false);
+  const [queue, setQueue] = useState<SessionQueue<ReviewCard>>(() => createSessionQueue([]));
+  const [relearned, setRelearned] = useState<string[]>([]);
   const [showAnswer, setShowAnswer] = useState(false);
   const [sessionComplete, setSessionComplete] = useState(false);
-  const [reviewCount, setReviewCount] = useState({
+  const [endedEarly, setEndedEarly] = useState(false);
+  const [resumeOffer, setResumeOffer] = useState<SavedSession<SavedSessionState> | null>(null);
+  const [reviewCount, setReviewCount] = useState<ReviewCounts>({
     again: 0,
     hard: 0,
     good: 0,
     easy: 0,
   });
 
+  // Ratings are written right away; the stack holds what they replaced
+  const undoStackRef = useRef(new ReviewUndoStack<SessionSnapshot>());
+  const [undoCount, setUndoCount] = useState(0);
+
+  // Undoing after a switch would write into the other learner's cards
   useEffect(() => {
+    return Profiles.onBeforeSwitch(() => {
+      undoStackRef.current.clear();
+      setUndoCount(0);
+    });
+  }, []);
+
+  // Due cards within today's new-card and review limits
+  const loadSessionCards = () => {
     const dueCards = SpacedRepetitionSystem.getDueCards();
-    const sessionCards = dueCards.slice(0, Math.min(maxCards, dueCards.length));
+    const sessionCards = DailyLimits.buildQueue(dueCards, maxCards);
     setCards(sessionCards);
+    setQueue(createSessionQueue(sessionCards));
+    setLimitReached(sessionCards.length === 0 && dueCards.length > 0);
+  };
 
-    if (sessionCards.length === 0) {
-      setSessionComplete(true);
-    }
+  // Wait for the stored cards before building the queue
+  useEffect(() => {
+    let cancelled = false;
+    SpacedRepetitionSystem.init().then(() => {
+      if (cancelled) return;
+      setCardsLoaded(true);
+      const saved = SessionStore.load<SavedSessionState>();
+      if (saved?.state.queue.current) {
+        setResumeOffer(saved);
+        return;
+      }
+      if (saved) SessionStore.clear();
+      loadSessionCards();
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [maxCards]);
 
-  const currentCard = cards[currentIndex];
-  const progress = cards.length > 0 ? ((currentIndex + 1) / cards.length) * 100 : 0;
-  const cardsReviewed = currentIndex;
+  // Keep the saved session in step with every change
+  useEffect(() => {
+    if (resumeOffer) return;
+    if (sessionComplete) {
+      SessionStore.clear();
+      return;
+    }
+    if (cards.length === 0) return;
+
+    SessionStore.save({ cards, queue, reviewCount, relearned });
+  }, [cards, queue, reviewCount, relearned, sessionComplete, resumeOffer]);
+
+  const resumeSession = () => {
+    if (!resumeOffer) return;
+
+    const { state } = resumeOffer;
+    setCards(state.cards);
+    setQueue(state.queue);
+    setReviewCount(state.reviewCount);
+    setRelearned(state.relearned);
+    setShowAnswer(false);
+    setResumeOffer(null);
+  };
+
+  const startNewSession = () => {
+    if (resumeOffer) SessionStore.clear();
+    setResumeOffer(null);
+    loadSessionCards();
+  };
+
+  // Word details fill in once the lessons are loaded
+  useWordDictionary();
+  const currentCard = queue.current?.card;
+  const isRelearning = queue.current?.step != null;
+  const isLeech = currentCard ? SpacedRepetitionSystem.isLeech(currentCard.word) : false;
+  const wordData = currentCard ? WordDictionary.lookup(currentCard.word, currentCard.lessonDay) : null;
+  const cardsReviewed = cards.length - remainingCount(queue);
+  const progress = cards.length > 0 ? (cardsReviewed / cards.length) * 100 : 0;
+
+  // Dry run of each rating, shown on the quality buttons. The stored card
+  // is used, so a relearning card is previewed with its lapse already applied.
+  const intervalLabels = useMemo(() => {
+    if (!queue.current) return null;
+    const { card, step } = queue.current;
+    const now = Date.now();
+    const stored = SpacedRepetitionSystem.getCard(card.word) ?? card;
+
+    const label = (quality: ReviewQuality) => {
+      const minutes = previewStep(step, quality, learningSteps);
+      if (minutes !== null) return formatInterval(minutes / (24 * 60));
+      const preview = SpacedRepetitionSystem.previewReview(stored, quality, now);
+      return formatInterval((preview.nextReview - now) / DAY_MS);
+    };
+    return {
+      [ReviewQuality.AGAIN]: label(ReviewQuality.AGAIN),
+      [ReviewQuality.HARD]: label(ReviewQuality.HARD),
+      [ReviewQuality.GOOD]: label(ReviewQuality.GOOD),
+      [ReviewQuality.EASY]: label(ReviewQuality.EASY),
+    };
+  }, [queue.current, learningSteps]);
+
+  // When the current card was shown, for the review log's time spent
+  const shownAtRef = useRef(Date.now());
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+  }, [queue.shown, cards]);
 
   const handlePlayAudio = async () => {
     if (currentCard) {
@@ -71,19 +237,44 @@ export function ReviewSession({
   const handleReview = (quality: ReviewQuality) => {
     if (!currentCard) return;
 
-    // Update card in system
-    SpacedRepetitionSystem.reviewCard(currentCard.word, quality);
+    const { queue: nextQueue, outcome } = answerCurrent(queue, quality, learningSteps);
+    const review: PendingReview = {
+      word: currentCard.word,
+      quality,
+      timeSpentMs: Date.now() - shownAtRef.current,
+      timestamp: Date.now(),
+      relearning: outcome === 'graduated',
+    };
+
+    // Relearning steps stay in the session; first answers and graduations
+    // (handing the card back to the long-term schedule) update the SRS
+    const undoStack = undoStackRef.current;
+    const committed = undoStack.push({ queue, reviewCount, relearned }, outcome === 'step' ? null : review);
+    setUndoCount(undoStack.size);
 
-    // Update local counts
-    const qualityNames = ['again', 'hard', 'good', 'easy'] as const;
-    setReviewCount(prev => ({
-      ...prev,
-      [qualityNames[quality]]: prev[qualityNames[quality]] + 1,
-    }));
+    // Update local counts (first answers only; relearning is tracked separately)
+    let nextCounts = reviewCount;
+    if (outcome === 'reviewed' || outcome === 'lapsed') {
+      const qualityNames = ['again', 'hard', 'good', 'easy'] as const;
+      nextCounts = { ...reviewCount, [qualityNames[quality]]: reviewCount[qualityNames[quality]] + 1 };
+      setReviewCount(nextCounts);
+    } else if (outcome === 'graduated') {
+      setRelearned(prev => [...prev, currentCard.word]);
+    }
 
     // Show feedback
-    if (quality === ReviewQuality.AGAIN) {
-      toast.error('Não se preocupe! Você verá esta palavra novamente em breve.', { duration: 2000 });
+    if (committed?.becameLeech) {
+      toast.warning(`"${currentCard.word}" virou sanguessuga: você a esqueceu muitas vezes.`, {
+        duration: 5000,
+        action: onOpenLeeches ? { label: 'Ver palavras', onClick: onOpenLeeches } : undefined,
+      });
+    } else if (quality === ReviewQuality.AGAIN) {
+      toast.error(
+        `Não se preocupe! Você verá esta palavra novamente em ${formatStep(learningSteps[0] ?? 1)}.`,
+        { duration: 2000 }
+      );
+    } else if (outcome === 'graduated') {
+      toast.success('Palavra reaprendida! 💪', { duration: 2000 });
     } else if (quality === ReviewQuality.EASY) {
       toast.success('Excelente! Palavra dominada! 🌟', { duration: 2000 });
       confetti({
@@ -93,9 +284,13 @@ export function ReviewSession({
       });
     }
 
-    // Move to next card
-    if (currentIndex < cards.length - 1) {
-      setCurrentIndex(prev => prev + 1);
+    moveTo(nextQueue, nextCounts);
+  };
+
+  // Move to the next card, or finish when the queue is empty
+  const moveTo = (nextQueue: SessionQueue<ReviewCard>, counts: ReviewCounts = reviewCount) => {
+    setQueue(nextQueue);
+    if (nextQueue.current) {
       setShowAnswer(false);
     } else {
       setSessionComplete(true);
@@ -104,33 +299,158 @@ export function ReviewSession({
         spread: 70,
         origin: { y: 0.6 }
       });
-      onComplete?.(cards.length);
+      onComplete?.(cards.length, counts);
+    }
+  };
+
+  // Take the card out of the session: suspended until reactivated, or buried until tomorrow
+  const handleSetAside = (action: 'suspend' | 'bury') => {
+    if (!currentCard) return;
+
+    if (action === 'suspend') {
+      CardFlags.suspend(currentCard.word);
+      toast.info(`"${currentCard.word}" suspensa`, { duration: 1500 });
+    } else {
+      CardFlags.bury(currentCard.word);
+      toast.info(`"${currentCard.word}" volta amanhã`, { duration: 1500 });
+    }
+
+    undoStackRef.current.push(
+      { queue, reviewCount, relearned, flagged: { word: currentCard.word, action } },
+      null
+    );
+    setUndoCount(undoStackRef.current.size);
+    moveTo(removeCurrent(queue));
+  };
+
+  const handleUndo = () => {
+    const entry = undoStackRef.current.pop();
+    if (!entry) return;
+
+    const { flagged } = entry.snapshot;
+    if (flagged?.action === 'suspend') CardFlags.unsuspend(flagged.word);
+    if (flagged?.action === 'bury') CardFlags.unbury(flagged.word);
+
+    setQueue(entry.snapshot.queue);
+    setReviewCount(entry.snapshot.reviewCount);
+    setRelearned(entry.snapshot.relearned);
+    setShowAnswer(!flagged);
+    setSessionComplete(false);
+    setEndedEarly(false);
+    setUndoCount(undoStackRef.current.size);
+    toast.info(
+      flagged
+        ? `"${flagged.word}" de volta à sessão`
+        : `Avaliação de "${entry.snapshot.queue.current?.card.word}" desfeita`,
+      { duration: 1500 }
+    );
+  };
+
+  // Stop early and show the summary of what was reviewed so far
+  const endSession = () => {
+    setEndedEarly(true);
+    setSessionComplete(true);
+    const totalReviewed = reviewCount.again + reviewCount.hard + reviewCount.good + reviewCount.easy;
+    onComplete?.(totalReviewed, reviewCount);
+  };
+
+  const handleKeyPress = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (
+      target &&
+      (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)
+    ) {
+      return;
+    }
+    if (e.repeat || e.altKey) return;
+
+    const key = e.key.toLowerCase();
+    // Undo also works from the summary, to take back the final rating
+    if ((e.ctrlKey || e.metaKey) ? e.key === 'z' : key === 'u') {
+      e.preventDefault();
+      handleUndo();
+      return;
+    }
+    if (sessionComplete || !currentCard || e.ctrlKey || e.metaKey) return;
+
+    if (key === 'p') {
+      handlePlayAudio();
+    } else if (key === 'escape') {
+      endSession();
+    } else if (!showAnswer && (key === ' ' || key === 'enter')) {
+      e.preventDefault();
+      setShowAnswer(true);
+    } else if (showAnswer && QUALITY_KEYS[key] !== undefined) {
+      e.preventDefault();
+      handleReview(QUALITY_KEYS[key]);
     }
   };
 
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyPress);
+    return () => window.removeEventListener('keydown', handleKeyPress);
+  }, [queue, reviewCount, relearned, showAnswer, sessionComplete]);
+
   const restartSession = () => {
-    const dueCards = SpacedRepetitionSystem.getDueCards();
-    const sessionCards = dueCards.slice(0, Math.min(maxCards, dueCards.length));
-    setCards(sessionCards);
-    setCurrentIndex(0);
+    undoStackRef.current.clear();
+    setUndoCount(0);
+    loadSessionCards();
+    setRelearned([]);
     setShowAnswer(false);
     setSessionComplete(false);
+    setEndedEarly(false);
     setReviewCount({ again: 0, hard: 0, good: 0, easy: 0 });
   };
 
+  if (resumeOffer) {
+    const { state } = resumeOffer;
+    const done = state.cards.length - remainingCount(state.queue);
+
+    return (
+      <Card>
+        <CardContent className="p-8 text-center space-y-4">
+          <Brain className="w-16 h-16 text-primary mx-auto" />
+          <h2 className="text-2xl font-bold text-foreground">
+            Sessão em Andamento
+          </h2>
+          <p className="text-muted-foreground">
+            Você já revisou {done} de {state.cards.length} palavras hoje.
+            Quer continuar de onde parou?
+          </p>
+          <div className="grid grid-cols-2 gap-4 pt-2">
+            <Button variant="outline" size="lg" onClick={startNewSession}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Nova Sessão
+            </Button>
+            <Button size="lg" onClick={resumeSession}>
+              <Play className="w-4 h-4 mr-2" />
+              Continuar
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!cardsLoaded) return null;
+
   if (cards.length === 0 && !sessionComplete) {
     return (
       <Card>
         <CardContent className="p-8 text-center space-y-4">
           <CheckCircle2 className="w-16 h-16 text-green-500 mx-auto" />
           <h2 className="text-2xl font-bold text-foreground">
-            Sem Revisões Pendentes!
+            {limitReached ? 'Limite Diário Atingido!' : 'Sem Revisões Pendentes!'}
           </h2>
           <p className="text-muted-foreground">
-            Parabéns! Você está em dia com suas revisões.
+            {limitReached
+              ? 'Você já estudou todas as palavras previstas para hoje.'
+              : 'Parabéns! Você está em dia com suas revisões.'}
           </p>
           <p className="text-sm text-muted-foreground">
-            Continue completando lições para adicionar mais palavras à fila de revisão.
+            {limitReached
+              ? 'As palavras restantes continuam na fila para amanhã.'
+              : 'Continue completando lições para adicionar mais palavras à fila de revisão.'}
           </p>
         </CardContent>
       </Card>
@@ -149,13 +469,14 @@ export function ReviewSession({
           <div className="text-center space-y-4">
             <Trophy className="w-16 h-16 text-yellow-500 mx-auto" />
             <h2 className="text-3xl font-bold text-foreground">
-              Sessão de Revisão Completa!
+              {endedEarly ? 'Sessão Encerrada' : 'Sessão de Revisão Completa!'}
             </h2>
             <div className="text-6xl font-bold text-primary">
               {successRate}%
             </div>
             <p className="text-lg text-muted-foreground">
               Você revisou {totalReviewed} {totalReviewed === 1 ? 'palavra' : 'palavras'}
+              {endedEarly && ` de ${cards.length}`}
             </p>
           </div>
 
@@ -187,6 +508,21 @@ export function ReviewSession({
             </div>
           </div>
 
+          {/* Relearned Cards */}
+          {relearned.length > 0 && (
+            <div className="p-4 bg-orange-500/5 rounded-lg border border-orange-500/20 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-foreground">Reaprendidas nesta sessão</span>
+                <span className="text-lg font-bold text-orange-600">{relearned.length}</span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {relearned.map(word => (
+                  <Badge key={word} variant="outline">{word}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Motivational Message */}
           {successRate >= 80 && (
             <div className="p-4 bg-green-500/10 rounded-lg border border-green-500/20 text-center">
@@ -211,6 +547,19 @@ export function ReviewSession({
           )}
 
           {/* Actions */}
+          {undoCount > 0 && (
+            <div className="flex justify-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleUndo}
+                title="Desfazer última avaliação (Ctrl+Z ou U)"
+              >
+                <Undo2 className="w-4 h-4 mr-1" />
+                Desfazer última avaliação
+              </Button>
+            </div>
+          )}
           <div className="grid grid-cols-2 gap-4">
             <Button
               variant="outline"
@@ -222,7 +571,7 @@ export function ReviewSession({
             </Button>
             <Button
               size="lg"
-              onClick={() => onComplete?.(totalReviewed)}
+              onClick={() => onComplete?.(totalReviewed, reviewCount)}
             >
               Voltar ao Painel
             </Button>
@@ -232,6 +581,8 @@ export function ReviewSession({
     );
   }
 
+  if (!currentCard) return null;
+
   return (
     <div className="space-y-6">
       {/* Progress Header */}
@@ -242,12 +593,30 @@ export function ReviewSession({
               <div className="flex items-center gap-2">
                 <Brain className="w-5 h-5 text-primary" />
                 <Badge variant="outline">
-                  Palavra {currentIndex + 1} de {cards.length}
+                  Palavra {Math.min(cardsReviewed + 1, cards.length)} de {cards.length}
                 </Badge>
+                {isRelearning && (
+                  <Badge variant="secondary" className="text-orange-600">
+                    Reaprendendo
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {cardsReviewed} revisadas
+                  {queue.learning.length > 0 && ` · ${queue.learning.length} para repetir`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={undoCount === 0}
+                  onClick={handleUndo}
+                  title="Desfazer última avaliação (Ctrl+Z ou U)"
+                >
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Desfazer
+                </Button>
               </div>
-              <span className="text-sm text-muted-foreground">
-                {cardsReviewed} revisadas
-              </span>
             </div>
             <Progress value={progress} className="h-2" />
           </div>
@@ -257,7 +626,7 @@ export function ReviewSession({
       {/* Review Card */}
       <AnimatePresence mode="wait">
         <motion.div
-          key={currentIndex}
+          key={queue.shown}
           initial={{ opacity: 0, scale: 0.9 }}
           animate={{ opacity: 1, scale: 1 }}
           exit={{ opacity: 0, scale: 0.9 }}
@@ -275,9 +644,17 @@ export function ReviewSession({
                     <h2 className="text-5xl font-bold text-primary">
                       {currentCard.word}
                     </h2>
-                    <Badge variant="secondary">
-                      Lição {currentCard.lessonDay}
-                    </Badge>
+                    <div className="flex items-center justify-center gap-2">
+                      <Badge variant="secondary">
+                        Lição {currentCard.lessonDay}
+                      </Badge>
+                      {isLeech && (
+                        <Badge variant="outline" className="border-red-500/50 text-red-600">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Sanguessuga
+                        </Badge>
+                      )}
+                    </div>
                   </div>
 
                   <Button
@@ -297,7 +674,7 @@ export function ReviewSession({
                   </p>
 
                   <p className="text-sm text-muted-foreground">
-                    Clique para revelar a resposta
+                    Clique ou pressione Espaço para revelar a resposta
                   </p>
                 </div>
               ) : (
@@ -307,14 +684,37 @@ export function ReviewSession({
                     <h2 className="text-4xl font-bold text-foreground">
                       {currentCard.word}
                     </h2>
-                    {/* TODO: Get definition and translation from dictionary */}
+                    {(wordData?.pronunciation || wordData?.partOfSpeech) && (
+                      <div className="flex items-center justify-center gap-2">
+                        {wordData.pronunciation && (
+                          <span className="text-muted-foreground">/{wordData.pronunciation}/</span>
+                        )}
+                        {wordData.partOfSpeech && (
+                          <Badge variant="secondary">{wordData.partOfSpeech}</Badge>
+                        )}
+                      </div>
+                    )}
                     <div className="max-w-xl mx-auto space-y-2">
-                      <p className="text-xl text-muted-foreground">
-                        [Definição em inglês]
-                      </p>
-                      <p className="text-xl text-secondary-foreground">
-                        [Tradução em português]
-                      </p>
+                      {wordData?.definition && (
+                        <p className="text-xl text-muted-foreground">
+                          {wordData.definition}
+                        </p>
+                      )}
+                      {wordData?.portuguese && (
+                        <p className="text-xl text-secondary-foreground">
+                          {wordData.portuguese}
+                        </p>
+                      )}
+                      {wordData?.example && (
+                        <p className="text-base italic text-muted-foreground">
+                          "{wordData.example}"
+                        </p>
+                      )}
+                      {!wordData?.definition && !wordData?.portuguese && (
+                        <p className="text-sm text-muted-foreground">
+                          Definição e tradução indisponíveis para esta palavra.
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -333,10 +733,15 @@ export function ReviewSession({
                       >
                         <div className="flex flex-col items-center gap-2">
                           <XCircle className="w-5 h-5" />
-                          <span>Repetir</span>
+                          <span>Repetir <kbd className="ml-1 text-xs text-muted-foreground">1</kbd></span>
                           <span className="text-xs text-muted-foreground">
                             Não lembrei
                           </span>
+                          {intervalLabels && (
+                            <span className="text-xs font-semibold">
+                              {intervalLabels[ReviewQuality.AGAIN]}
+                            </span>
+                          )}
                         </div>
                       </Button>
 
@@ -348,10 +753,15 @@ export function ReviewSession({
                       >
                         <div className="flex flex-col items-center gap-2">
                           <ThumbsUp className="w-5 h-5 rotate-180" />
-                          <span>Difícil</span>
+                          <span>Difícil <kbd className="ml-1 text-xs text-muted-foreground">2</kbd></span>
                           <span className="text-xs text-muted-foreground">
                             Com esforço
                           </span>
+                          {intervalLabels && (
+                            <span className="text-xs font-semibold">
+                              {intervalLabels[ReviewQuality.HARD]}
+                            </span>
+                          )}
                         </div>
                       </Button>
 
@@ -363,10 +773,15 @@ export function ReviewSession({
                       >
                         <div className="flex flex-col items-center gap-2">
                           <CheckCircle2 className="w-5 h-5" />
-                          <span>Bom</span>
+                          <span>Bom <kbd className="ml-1 text-xs text-muted-foreground">3</kbd></span>
                           <span className="text-xs text-muted-foreground">
                             Lembrei bem
                           </span>
+                          {intervalLabels && (
+                            <span className="text-xs font-semibold">
+                              {intervalLabels[ReviewQuality.GOOD]}
+                            </span>
+                          )}
                         </div>
                       </Button>
 
@@ -378,10 +793,15 @@ export function ReviewSession({
                       >
                         <div className="flex flex-col items-center gap-2">
                           <Zap className="w-5 h-5" />
-                          <span>Fácil</span>
+                          <span>Fácil <kbd className="ml-1 text-xs text-muted-foreground">4</kbd></span>
                           <span className="text-xs text-muted-foreground">
                             Muito fácil
                           </span>
+                          {intervalLabels && (
+                            <span className="text-xs font-semibold">
+                              {intervalLabels[ReviewQuality.EASY]}
+                            </span>
+                          )}
                         </div>
                       </Button>
                     </div>
@@ -393,14 +813,29 @@ export function ReviewSession({
         </motion.div>
       </AnimatePresence>
 
+      {/* Set Aside */}
+      <div className="flex justify-center gap-2">
+        <Button variant="ghost" size="sm" onClick={() => handleSetAside('bury')}>
+          <Moon className="w-4 h-4 mr-1" />
+          Adiar para amanhã
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => handleSetAside('suspend')}>
+          <PauseCircle className="w-4 h-4 mr-1" />
+          Suspender
+        </Button>
+      </div>
+
       {/* Instructions */}
       <Card>
         <CardContent className="p-4">
           <div className="text-xs text-muted-foreground space-y-1">
-            <p><strong>Repetir:</strong> Não consegui lembrar (verá novamente hoje)</p>
+            <p><strong>Repetir:</strong> Não consegui lembrar (volta nesta sessão até você lembrar)</p>
             <p><strong>Difícil:</strong> Lembrei com dificuldade (revisão em 1 dia)</p>
             <p><strong>Bom:</strong> Lembrei sem problemas (revisão em 3+ dias)</p>
             <p><strong>Fácil:</strong> Muito fácil de lembrar (revisão em 7+ dias)</p>
+            <p className="pt-2">
+              <strong>Atalhos:</strong> Espaço/Enter revelar · 1–4 avaliar · P ouvir · U ou Ctrl+Z desfazer · Esc encerrar
+            </p>
           </div>
         </CardContent>
       </Card>
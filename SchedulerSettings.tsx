@@ -0,0 +1,78 @@
+/**
+ * SchedulerSettings Component
+ * Lets each learner pick the spaced repetition algorithm (SM-2 or FSRS).
+ * Switching keeps every card's due date; only later reviews change.
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Brain, CheckCircle2 } from 'lucide-react';
+import { SpacedRepetitionSystem } from '@/lib/spacedRepetition';
+import { getPreferredSchedulerId, getScheduler, type SchedulerId } from '@/lib/scheduler';
+import { toast } from 'sonner';
+
+const SCHEDULER_OPTIONS: Array<{ id: SchedulerId; description: string }> = [
+  {
+    id: 'sm2',
+    description: 'Clássico e previsível: os intervalos crescem conforme a facilidade de cada palavra.',
+  },
+  {
+    id: 'fsrs',
+    description: 'Modelo de memória moderno: estima quando você esqueceria cada palavra e agenda a revisão antes disso.',
+  },
+];
+
+interface SchedulerSettingsProps {
+  onChange?: (scheduler: SchedulerId) => void;
+}
+
+export function SchedulerSettings({ onChange }: SchedulerSettingsProps) {
+  const [selected, setSelected] = useState<SchedulerId>(() => getPreferredSchedulerId());
+
+  const handleSelect = (id: SchedulerId) => {
+    if (id === selected) return;
+    try {
+      SpacedRepetitionSystem.setScheduler(id);
+      setSelected(id);
+      onChange?.(id);
+      toast.success(`Agora usando ${getScheduler(id).label}`, { duration: 2000 });
+    } catch (error) {
+      console.error('Failed to change scheduler:', error);
+      toast.error('Não foi possível trocar o algoritmo');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="w-5 h-5" />
+          Algoritmo de Revisão
+        </CardTitle>
+        <CardDescription>
+          Escolha como as próximas revisões são agendadas. As datas já marcadas não mudam.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {SCHEDULER_OPTIONS.map(option => {
+          const isSelected = option.id === selected;
+          return (
+            <Button
+              key={option.id}
+              variant={isSelected ? 'default' : 'outline'}
+              onClick={() => handleSelect(option.id)}
+              className="h-auto w-full flex-col items-start gap-1 whitespace-normal p-4 text-left"
+            >
+              <span className="flex items-center gap-2 font-semibold">
+                {isSelected && <CheckCircle2 className="w-4 h-4" />}
+                {getScheduler(option.id).label}
+              </span>
+              <span className="text-xs font-normal opacity-80">{option.description}</span>
+            </Button>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,22 +8,24 @@ import { motion } from 'framer-motion';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Flame, Calendar } from 'lucide-react';
+import { LearnerProgress } from '@/lib/learnerProgress';
+import { toDateKey } from '@/lib/reviewLog';
 
-interface StreakData {
-  date: string; // ISO date string
+export interface StreakData {
+  date: string; // YYYY-MM-DD, local time
   lessonsCompleted: number;
   wordsLearned: number;
 }
 
 interface StreakCalendarProps {
-  streakData: StreakData[];
+  streakData?: StreakData[]; // Read from LearnerProgress when omitted
   currentStreak: number;
   longestStreak: number;
   totalDays: number;
 }
 
 export function StreakCalendar({
-  streakData,
+  streakData = LearnerProgress.getStreakData(),
   currentStreak,
   longestStreak,
   totalDays,
@@ -38,7 +40,7 @@ export function StreakCalendar({
       date.setDate(date.getDate() - i);
       date.setHours(0, 0, 0, 0);
       
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = toDateKey(date.getTime());
       const dayData = streakData.find(d => d.date === dateStr);
       const count = dayData?.lessonsCompleted || 0;
       
@@ -0,0 +1,144 @@
+/**
+ * SyncSettingsPanel Component
+ * Connects the active learner profile to a sync server: address, account
+ * and optional token, with the current sync status and a manual sync
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import type { SyncStatus } from '@/lib/sync';
+import {
+  getSyncClient,
+  getSyncSettings,
+  isSyncConfigured,
+  onSyncClientChange,
+  saveSyncSettings,
+  startSync,
+  type SyncSettings
+} from '@/lib/syncService';
+import { toast } from 'sonner';
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  idle: 'Aguardando',
+  syncing: 'Sincronizando…',
+  synced: 'Sincronizado',
+  offline: 'Sem conexão',
+  error: 'Erro ao sincronizar',
+};
+
+export function SyncSettingsPanel() {
+  const [settings, setSettings] = useState<SyncSettings>(() => getSyncSettings());
+  const [status, setStatus] = useState<SyncStatus | null>(() => getSyncClient()?.getStatus() ?? null);
+  const [busy, setBusy] = useState(false);
+
+  // Follow whichever client is running (it changes with the profile).
+  // Sync normally runs from app startup; holding it here as well means
+  // settings saved in this panel take effect even if it didn't.
+  useEffect(() => {
+    const stopSync = startSync();
+    let unsubscribeStatus: (() => void) | undefined;
+    const follow = () => {
+      unsubscribeStatus?.();
+      const client = getSyncClient();
+      setStatus(client?.getStatus() ?? null);
+      setSettings(getSyncSettings());
+      unsubscribeStatus = client?.onStatusChange(setStatus);
+    };
+    follow();
+    const unsubscribeClient = onSyncClientChange(follow);
+    return () => {
+      unsubscribeClient();
+      unsubscribeStatus?.();
+      stopSync();
+    };
+  }, []);
+
+  const update = (changes: Partial<SyncSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const handleSave = (enabled: boolean) => {
+    const next = { ...settings, enabled };
+    if (enabled && !isSyncConfigured(next)) {
+      toast.error('Preencha o endereço do servidor e o código da conta');
+      return;
+    }
+    saveSyncSettings(next);
+    setSettings(getSyncSettings());
+    toast.success(enabled ? 'Sincronização ativada' : 'Sincronização desativada', { duration: 2000 });
+  };
+
+  const handleSyncNow = async () => {
+    const client = getSyncClient();
+    if (!client) return;
+    setBusy(true);
+    try {
+      const result = await client.sync();
+      if (result.status === 'synced') {
+        toast.success('Progresso sincronizado!', { duration: 2000 });
+      } else if (result.status === 'offline') {
+        toast.error('Sem conexão. As mudanças serão enviadas depois.');
+      } else {
+        toast.error('Não foi possível sincronizar');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {settings.enabled ? <Cloud className="w-5 h-5" /> : <CloudOff className="w-5 h-5" />}
+          Sincronização
+          {status && <Badge variant="secondary">{STATUS_LABELS[status]}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Mantenha o progresso deste perfil igual em todos os seus dispositivos.
+          Cada perfil usa a sua própria conta.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          placeholder="Endereço do servidor (https://...)"
+          value={settings.baseUrl}
+          onChange={(e) => update({ baseUrl: e.target.value })}
+        />
+        <Input
+          placeholder="Código da conta"
+          value={settings.userId}
+          onChange={(e) => update({ userId: e.target.value })}
+        />
+        <Input
+          type="password"
+          placeholder="Token de acesso (opcional)"
+          value={settings.token ?? ''}
+          onChange={(e) => update({ token: e.target.value })}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          {settings.enabled ? (
+            <>
+              <Button variant="outline" onClick={() => handleSave(false)}>
+                Desativar
+              </Button>
+              <Button onClick={() => handleSave(true)}>Salvar</Button>
+            </>
+          ) : (
+            <Button className="col-span-2" onClick={() => handleSave(true)}>
+              Ativar Sincronização
+            </Button>
+          )}
+        </div>
+        {status && (
+          <Button variant="ghost" onClick={handleSyncNow} disabled={busy} className="w-full">
+            <RefreshCw className={`w-4 h-4 mr-2 ${busy ? 'animate-spin' : ''}`} />
+            Sincronizar agora
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@
  * Interactive flashcard for vocabulary learning with flip animation, audio, and progress tracking
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -18,6 +18,7 @@ import {
   StarOff
 } from 'lucide-react';
 import { speakWord, speakTranslation } from '@/lib/audioUtils';
+import { LearnerProgress } from '@/lib/learnerProgress';
 import { toast } from 'sonner';
 
 export interface WordData {
@@ -33,7 +34,7 @@ interface WordFlashcardProps {
   word: WordData;
   index: number;
   total: number;
-  isLearned?: boolean;
+  isLearned?: boolean; // Read from LearnerProgress when omitted
   onMarkLearned?: (word: string, learned: boolean) => void;
   onNext?: () => void;
   onPrevious?: () => void;
@@ -46,7 +47,7 @@ export function WordFlashcard({
   word,
   index,
   total,
-  isLearned = false,
+  isLearned: isLearnedProp,
   onMarkLearned,
   onNext,
   onPrevious,
@@ -55,6 +56,12 @@ export function WordFlashcard({
   const [currentFace, setCurrentFace] = useState<CardFace>('word');
   const [isFlipping, setIsFlipping] = useState(false);
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
+  const [storedLearned, setStoredLearned] = useState(() => LearnerProgress.isWordLearned(word.word));
+  const isLearned = isLearnedProp ?? storedLearned;
+
+  useEffect(() => {
+    setStoredLearned(LearnerProgress.isWordLearned(word.word));
+  }, [word.word]);
 
   const flipToNext = () => {
     if (isFlipping) return;
@@ -91,6 +98,8 @@ export function WordFlashcard({
   };
 
   const handleToggleLearned = () => {
+    LearnerProgress.setWordLearned(word.word, !isLearned);
+    setStoredLearned(!isLearned);
     onMarkLearned?.(word.word, !isLearned);
     toast.success(
       isLearned 
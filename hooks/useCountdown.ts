@@ -0,0 +1,58 @@
+/**
+ * useCountdown Hook
+ * Countdown timer that pauses while the tab is hidden
+ */
+
+import { useState, useEffect, useRef } from 'react';
+
+interface UseCountdownOptions {
+  durationMs: number;
+  running: boolean;
+  resetKey?: unknown; // Changing this restarts the countdown
+  onExpire?: () => void;
+}
+
+const TICK_MS = 100;
+
+export function useCountdown({ durationMs, running, resetKey, onExpire }: UseCountdownOptions) {
+  const [remainingMs, setRemainingMs] = useState(durationMs);
+  const [isPaused, setIsPaused] = useState(() => typeof document !== 'undefined' && document.hidden);
+  const elapsedRef = useRef(0);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  // Restart
+  useEffect(() => {
+    elapsedRef.current = 0;
+    setRemainingMs(durationMs);
+  }, [resetKey, durationMs]);
+
+  // Pause while the tab is hidden
+  useEffect(() => {
+    const handleVisibility = () => setIsPaused(document.hidden);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  useEffect(() => {
+    if (!running || isPaused || durationMs <= 0) return;
+
+    let lastTick = Date.now();
+    const interval = setInterval(() => {
+      const now = Date.now();
+      elapsedRef.current += now - lastTick;
+      lastTick = now;
+
+      const remaining = Math.max(0, durationMs - elapsedRef.current);
+      setRemainingMs(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+        onExpireRef.current?.();
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [running, isPaused, durationMs, resetKey]);
+
+  return { remainingMs, isPaused };
+}
@@ -0,0 +1,31 @@
+/**
+ * Profile Hooks
+ * The learner profiles on this device and the active one, kept current
+ * when profiles change in this tab or another one
+ */
+
+import { useSyncExternalStore } from 'react';
+import { Profiles, type Profile } from '@/lib/profiles';
+import { subscribeReviewChanges } from '@/lib/reviewStore';
+
+function subscribe(listener: () => void): () => void {
+  const unsubscribeProfiles = Profiles.subscribe(listener);
+  // Other tabs' profile changes arrive as external review-store changes
+  const unsubscribeExternal = subscribeReviewChanges(listener);
+  return () => {
+    unsubscribeProfiles();
+    unsubscribeExternal();
+  };
+}
+
+export function useProfiles(): Profile[] {
+  return useSyncExternalStore(subscribe, () => Profiles.getAll(), () => Profiles.getAll());
+}
+
+/**
+ * Use the id as a React key around profile-specific screens so they
+ * remount with the new learner's data after a switch
+ */
+export function useActiveProfile(): Profile {
+  return useSyncExternalStore(subscribe, () => Profiles.getActive(), () => Profiles.getActive());
+}
@@ -0,0 +1,50 @@
+/**
+ * Review Store Hooks
+ * Live views of the review data: components re-render whenever cards,
+ * the review log or card flags change, in this tab or another one
+ */
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { SpacedRepetitionSystem } from '@/lib/spacedRepetition';
+import { DailyLimits } from '@/lib/dailyLimits';
+import { ReviewLog } from '@/lib/reviewLog';
+import { getReviewVersion, subscribeReviewChanges } from '@/lib/reviewStore';
+
+/**
+ * Changes on every review data update; use as a memo dependency
+ */
+export function useReviewVersion(): number {
+  return useSyncExternalStore(subscribeReviewChanges, getReviewVersion, () => 0);
+}
+
+export function useReviewStats() {
+  const version = useReviewVersion();
+  return useMemo(() => SpacedRepetitionSystem.getStats(), [version]);
+}
+
+export function useDueCards() {
+  const version = useReviewVersion();
+  return useMemo(() => SpacedRepetitionSystem.getDueCards(), [version]);
+}
+
+export function useUpcomingCards(days: number) {
+  const version = useReviewVersion();
+  return useMemo(() => SpacedRepetitionSystem.getUpcomingCards(days), [version, days]);
+}
+
+/**
+ * Today's queue after the daily limits (what a session would show)
+ */
+export function useTodayQueue() {
+  const dueCards = useDueCards();
+  return useMemo(() => DailyLimits.buildQueue(dueCards), [dueCards]);
+}
+
+export function useReviewHistory(days = 30) {
+  const version = useReviewVersion();
+  return useMemo(() => ({
+    trueRetention: ReviewLog.getTrueRetention(days),
+    reviewsPerDay: ReviewLog.getReviewsPerDay(7),
+    averageTimeMs: ReviewLog.getAverageTimeMs(days),
+  }), [version, days]);
+}
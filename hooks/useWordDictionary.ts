@@ -0,0 +1,19 @@
+/**
+ * Word Dictionary Hook
+ * Re-renders the component when WordDictionary is (re)loaded, so screens
+ * shown before the lesson content arrived pick up word details
+ */
+
+import { useSyncExternalStore } from 'react';
+import { WordDictionary } from '@/lib/dictionary';
+
+function subscribe(listener: () => void): () => void {
+  return WordDictionary.subscribe(listener);
+}
+
+/**
+ * Changes on every dictionary load; use as a memo dependency
+ */
+export function useWordDictionary(): number {
+  return useSyncExternalStore(subscribe, () => WordDictionary.version, () => WordDictionary.version);
+}
@@ -0,0 +1,153 @@
+/**
+ * Answer Grading
+ * Tolerant answer checking with accent/punctuation normalization,
+ * alternative answers and "almost correct" detection by edit distance
+ */
+
+import { levenshtein, normalizeText } from '@/lib/textUtils';
+
+/**
+ * strict  - exact match (case and surrounding spaces ignored)
+ * normal  - accents and punctuation ignored; small typos are "almost" but wrong
+ * lenient - like normal, but "almost" answers also count as correct
+ */
+export type GradingStrictness = 'strict' | 'normal' | 'lenient';
+
+export type AnswerVerdict = 'correct' | 'almost' | 'incorrect';
+
+export interface DiffSegment {
+  type: 'same' | 'missing' | 'extra'; // missing = expected but not typed
+  text: string;
+}
+
+export interface GradeResult {
+  verdict: AnswerVerdict;
+  correct: boolean; // Whether the answer should be scored as right
+  matchedAnswer: string; // The accepted answer closest to the input
+  distance: number;
+  diff: DiffSegment[];
+}
+
+/**
+ * Split multi-valued answers like "casa, lar" or "grande / enorme"
+ */
+export function splitAlternatives(answer: string): string[] {
+  return answer
+    .split(/\s*(?:[,;/|]|\bou\b|\bor\b)\s*/i)
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+export function normalizeAnswer(text: string, strictness: GradingStrictness = 'normal'): string {
+  if (strictness === 'strict') {
+    return text.toLowerCase().trim();
+  }
+  return normalizeText(text.replace(/[^\p{L}\p{N}\s'-]/gu, ' ')).replace(/\s+/g, ' ');
+}
+
+/**
+ * Typos allowed before an answer stops being "almost" correct
+ */
+function almostThreshold(expected: string): number {
+  if (expected.length <= 3) return 0;
+  if (expected.length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Character diff between what the user typed and the expected answer
+ */
+export function diffAnswer(input: string, expected: string): DiffSegment[] {
+  const a = input.trim();
+  const b = expected.trim();
+  const al = a.toLowerCase();
+  const bl = b.toLowerCase();
+
+  // Full DP table so we can walk back through the edits
+  const dp: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = 0; i <= a.length; i++) dp[i][0] = i;
+  for (let j = 0; j <= b.length; j++) dp[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = al[i - 1] === bl[j - 1] ? 0 : 1;
+      dp[i][j] = Math.min(dp[i - 1][j] + 1, dp[i][j - 1] + 1, dp[i - 1][j - 1] + cost);
+    }
+  }
+
+  const ops: DiffSegment[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && al[i - 1] === bl[j - 1] && dp[i][j] === dp[i - 1][j - 1]) {
+      ops.push({ type: 'same', text: b[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + 1) {
+      // Substitution: show the typed char as extra and the expected one as missing
+      ops.push({ type: 'missing', text: b[j - 1] });
+      ops.push({ type: 'extra', text: a[i - 1] });
+      i--;
+      j--;
+    } else if (j > 0 && dp[i][j] === dp[i][j - 1] + 1) {
+      ops.push({ type: 'missing', text: b[j - 1] });
+      j--;
+    } else {
+      ops.push({ type: 'extra', text: a[i - 1] });
+      i--;
+    }
+  }
+
+  // Merge consecutive segments of the same type
+  return ops.reverse().reduce<DiffSegment[]>((segments, op) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.text;
+    } else {
+      segments.push({ ...op });
+    }
+    return segments;
+  }, []);
+}
+
+/**
+ * Grade a typed answer against one or more accepted answers
+ */
+export function gradeAnswer(
+  input: string,
+  accepted: string | string[],
+  strictness: GradingStrictness = 'normal'
+): GradeResult {
+  const candidates = (Array.isArray(accepted) ? accepted : [accepted]).flatMap(answer => [
+    answer,
+    ...splitAlternatives(answer),
+  ]);
+  const normalizedInput = normalizeAnswer(input, strictness);
+
+  let best = { answer: candidates[0] ?? '', distance: Infinity };
+  for (const candidate of candidates) {
+    const distance = levenshtein(normalizedInput, normalizeAnswer(candidate, strictness));
+    if (distance < best.distance) {
+      best = { answer: candidate, distance };
+    }
+    if (distance === 0) break;
+  }
+
+  let verdict: AnswerVerdict = 'incorrect';
+  if (best.distance === 0) {
+    verdict = 'correct';
+  } else if (
+    strictness !== 'strict' &&
+    normalizedInput.length > 0 &&
+    best.distance <= almostThreshold(normalizeAnswer(best.answer, strictness))
+  ) {
+    verdict = 'almost';
+  }
+
+  return {
+    verdict,
+    correct: verdict === 'correct' || (verdict === 'almost' && strictness === 'lenient'),
+    matchedAnswer: best.answer,
+    distance: best.distance,
+    diff: verdict === 'correct' ? [] : diffAnswer(input, best.answer),
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Backup Tests
+ * Every section the backup format lists is exported and imported
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReviewQuality } from '@/lib/srsConstants';
+import { MemoryStorage } from '@/lib/memoryStorage';
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+
+async function loadBackup() {
+  vi.resetModules();
+  const { SpacedRepetitionSystem } = await import('@/lib/spacedRepetition');
+  await SpacedRepetitionSystem.init();
+  const { LearnerProgress } = await import('@/lib/learnerProgress');
+  const backup = await import('@/lib/backup');
+  return { SRS: SpacedRepetitionSystem, LearnerProgress, ...backup };
+}
+
+describe('backup', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  it('exports cards, lessons, streaks and learned words', async () => {
+    const { SRS, LearnerProgress, exportBackup } = await loadBackup();
+    SRS.addCards(['house'], 3, T0);
+    LearnerProgress.completeLesson(3, T0);
+    LearnerProgress.setWordLearned('house', true, T0);
+
+    const { data } = await exportBackup(new Date(T0));
+
+    expect(data.cards).toEqual([expect.objectContaining({ word: 'house', lessonDay: 3 })]);
+    expect(data.completedLessons).toEqual([3]);
+    expect(data.streakData).toEqual([expect.objectContaining({ lessonsCompleted: 1, wordsLearned: 1 })]);
+    expect(data.learnedWords).toEqual(['house']);
+  });
+
+  it('restores every section into a fresh device', async () => {
+    const source = await loadBackup();
+    source.SRS.addCards(['house', 'dog'], 1, T0);
+    source.SRS.reviewCard('house', ReviewQuality.GOOD, T0);
+    source.LearnerProgress.completeLesson(1, T0);
+    source.LearnerProgress.setWordLearned('dog', true, T0);
+    const json = JSON.stringify(await source.exportBackup(new Date(T0)));
+
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    const target = await loadBackup();
+    const report = await target.importBackup(json, 'replace');
+
+    expect(report.issues).toEqual([]);
+    expect(target.SRS.getCard('house')).toMatchObject({ lastReview: T0, repetitions: 1 });
+    expect(target.SRS.getAllCards()).toHaveLength(2);
+    expect(target.LearnerProgress.getCompletedLessons()).toEqual([1]);
+    expect(target.LearnerProgress.getLearnedWords()).toEqual(['dog']);
+  });
+
+  it('keeps the most recent flag change when merging', async () => {
+    const { mergeBackupData } = await loadBackup();
+    const suspended = { suspended: true, updatedAt: T0 };
+    const unsuspended = { suspended: false, updatedAt: T0 + 1000 };
+
+    expect(mergeBackupData({ cardFlags: { house: unsuspended } }, { cardFlags: { house: suspended } }).cardFlags)
+      .toEqual({ house: unsuspended });
+    expect(mergeBackupData({ cardFlags: { house: suspended } }, { cardFlags: { house: unsuspended } }).cardFlags)
+      .toEqual({ house: unsuspended });
+  });
+});
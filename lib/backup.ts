@@ -0,0 +1,507 @@
+/**
+ * Progress Backup
+ * Versioned JSON export/import of all learner data. Each section is read
+ * and written through its store: SRS cards, the review log, card flags,
+ * lesson and streak progress, learned words, phrase statuses and settings.
+ */
+
+import { SpacedRepetitionSystem, type ReviewCard } from '@/lib/spacedRepetition';
+import type { StreakData } from '@/components/StreakCalendar';
+import { ReviewLog, type ReviewLogEntry } from '@/lib/reviewLog';
+import { CardFlags, type CardFlagState } from '@/lib/cardFlags';
+import { PhraseProgress, type PhraseStatus } from '@/lib/phraseProgress';
+import { LearnerProgress } from '@/lib/learnerProgress';
+import { DailyLimits, type DailyLimitSettings } from '@/lib/dailyLimits';
+import {
+  getPreferredSchedulerId,
+  setPreferredSchedulerId,
+  type SchedulerId,
+} from '@/lib/scheduler';
+import { notifyReviewChange } from '@/lib/reviewStore';
+import { getActiveProfileId } from '@/lib/profiles';
+
+export const BACKUP_FORMAT = 'vocab112-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupSettings {
+  dailyLimits?: DailyLimitSettings;
+  scheduler?: SchedulerId;
+}
+
+export interface BackupData {
+  cards?: ReviewCard[];
+  reviewLog?: ReviewLogEntry[];
+  cardFlags?: Record<string, CardFlagState>;
+  completedLessons?: number[];
+  streakData?: StreakData[];
+  learnedWords?: string[];
+  phraseStatuses?: Record<string, PhraseStatus>;
+  settings?: BackupSettings;
+}
+
+export type BackupSection = keyof BackupData;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface SectionReport {
+  imported: number;
+  dropped: number; // Malformed items left out
+}
+
+export interface ImportReport {
+  fromVersion: number;
+  mode: ImportMode;
+  sections: Partial<Record<BackupSection, SectionReport>>;
+  issues: string[]; // Human-readable notes on what was repaired or skipped
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+interface BackupSource<T> {
+  read(profileId: string): T | Promise<T>; // Any profile's data, not only the active one's
+  write(value: T): void | Promise<void>;
+}
+
+const SECTIONS: BackupSection[] = [
+  'cards',
+  'reviewLog',
+  'cardFlags',
+  'completedLessons',
+  'streakData',
+  'learnedWords',
+  'phraseStatuses',
+  'settings',
+];
+
+const sources: { [K in BackupSection]: BackupSource<NonNullable<BackupData[K]>> } = {
+  cards: {
+    read: profileId => SpacedRepetitionSystem.getAllCardsOf(profileId),
+    write: cards => SpacedRepetitionSystem.replaceAll(cards),
+  },
+  reviewLog: {
+    read: profileId => ReviewLog.getRecords(profileId),
+    write: entries => ReviewLog.replaceAll(entries),
+  },
+  cardFlags: {
+    read: profileId => CardFlags.getAll(profileId),
+    write: flags => CardFlags.replaceAll(flags),
+  },
+  completedLessons: {
+    read: profileId => LearnerProgress.getCompletedLessons(profileId),
+    write: lessons => LearnerProgress.replaceCompletedLessons(lessons),
+  },
+  streakData: {
+    read: profileId => LearnerProgress.getStreakData(profileId),
+    write: days => LearnerProgress.replaceStreakData(days),
+  },
+  learnedWords: {
+    read: profileId => LearnerProgress.getLearnedWords(profileId),
+    write: words => LearnerProgress.replaceLearnedWords(words),
+  },
+  phraseStatuses: {
+    read: profileId => PhraseProgress.getAll(profileId),
+    write: statuses => PhraseProgress.replaceAll(statuses),
+  },
+  settings: {
+    read: profileId => ({
+      dailyLimits: DailyLimits.getSettings(profileId),
+      scheduler: getPreferredSchedulerId(profileId),
+    }),
+    write: settings => {
+      if (settings.dailyLimits) DailyLimits.saveSettings(settings.dailyLimits);
+      if (settings.scheduler) setPreferredSchedulerId(settings.scheduler);
+    },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Export
+
+/**
+ * Read the given sections of a profile (by default the active one)
+ */
+export async function readBackupData(
+  sections: BackupSection[] = SECTIONS,
+  profileId: string = getActiveProfileId()
+): Promise<BackupData> {
+  const data: BackupData = {};
+  for (const section of sections) {
+    (data as Record<BackupSection, unknown>)[section] = await sources[section].read(profileId);
+  }
+  return data;
+}
+
+/**
+ * Write every section present in data
+ */
+export async function writeBackupData(data: BackupData): Promise<void> {
+  for (const section of SECTIONS) {
+    const value = data[section];
+    if (value !== undefined) await (sources[section] as BackupSource<unknown>).write(value);
+  }
+}
+
+export async function exportBackup(
+  now: Date = new Date(),
+  profileId: string = getActiveProfileId()
+): Promise<BackupFile> {
+  const data = await readBackupData(SECTIONS, profileId);
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: now.toISOString(), data };
+}
+
+export function backupFileName(now: Date = new Date(), label?: string): string {
+  const slug = label
+    ?.normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `vocab112-backup-${slug ? `${slug}-` : ''}${now.toISOString().split('T')[0]}.json`;
+}
+
+/**
+ * Save a backup through the browser's download prompt
+ */
+export function downloadBackup(backup: BackupFile, fileName: string = backupFileName()): void {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ---------------------------------------------------------------------------
+// Migrations: each step turns version N into version N + 1
+
+type RawBackup = { version: number; data: Record<string, unknown> };
+
+const MIGRATIONS: Record<number, (backup: RawBackup) => RawBackup> = {
+  // Version 0: bare data object without the envelope, snake_case keys
+  0: backup => {
+    const { completed_lessons, streak_data, learned_words, phrase_statuses, review_log, card_flags, ...rest } =
+      backup.data;
+    return {
+      version: 1,
+      data: {
+        ...rest,
+        completedLessons: rest.completedLessons ?? completed_lessons,
+        streakData: rest.streakData ?? streak_data,
+        learnedWords: rest.learnedWords ?? learned_words,
+        phraseStatuses: rest.phraseStatuses ?? phrase_statuses,
+        reviewLog: rest.reviewLog ?? review_log,
+        cardFlags: rest.cardFlags ?? card_flags,
+      },
+    };
+  },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readEnvelope(input: unknown): RawBackup {
+  if (!isObject(input)) {
+    throw new BackupError('O arquivo não contém um backup válido.');
+  }
+  if (input.format === undefined && input.version === undefined) {
+    return { version: 0, data: input };
+  }
+  if (input.format !== BACKUP_FORMAT) {
+    throw new BackupError('Este arquivo não é um backup do Vocab112.');
+  }
+  if (typeof input.version !== 'number' || !Number.isInteger(input.version) || input.version < 0) {
+    throw new BackupError('Versão do backup inválida.');
+  }
+  if (input.version > BACKUP_VERSION) {
+    throw new BackupError('Este backup foi criado por uma versão mais nova do app. Atualize o app para importá-lo.');
+  }
+  if (!isObject(input.data)) {
+    throw new BackupError('O backup não contém dados.');
+  }
+  return { version: input.version, data: input.data };
+}
+
+function migrate(backup: RawBackup): RawBackup {
+  let current = backup;
+  while (current.version < BACKUP_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new BackupError(`Não é possível atualizar backups da versão ${current.version}.`);
+    current = step(current);
+  }
+  return current;
+}
+
+// ---------------------------------------------------------------------------
+// Validation and repair
+
+interface Validated<T> {
+  value: T;
+  dropped: number;
+}
+
+function validateList<T>(value: unknown, isValid: (item: unknown) => item is T): Validated<T[]> | null {
+  if (!Array.isArray(value)) return null;
+  const valid = value.filter(isValid);
+  return { value: valid, dropped: value.length - valid.length };
+}
+
+function validateRecord<T>(value: unknown, isValid: (item: unknown) => item is T): Validated<Record<string, T>> | null {
+  if (!isObject(value)) return null;
+  const entries = Object.entries(value);
+  const valid = entries.filter((entry): entry is [string, T] => entry[0].trim() !== '' && isValid(entry[1]));
+  return { value: Object.fromEntries(valid), dropped: entries.length - valid.length };
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isCard = (item: unknown): item is ReviewCard =>
+  isObject(item) &&
+  typeof item.word === 'string' &&
+  item.word.trim() !== '' &&
+  isFiniteNumber(item.lessonDay) &&
+  (typeof item.nextReview === 'number' || typeof item.nextReview === 'string') &&
+  !Number.isNaN(new Date(item.nextReview).getTime()) &&
+  (item.updatedAt === undefined || isFiniteNumber(item.updatedAt));
+
+const isLogEntry = (item: unknown): item is ReviewLogEntry =>
+  isObject(item) &&
+  typeof item.word === 'string' &&
+  isFiniteNumber(item.timestamp) &&
+  isFiniteNumber(item.quality) &&
+  item.quality >= 0 &&
+  item.quality <= 3 &&
+  isFiniteNumber(item.previousInterval) &&
+  isFiniteNumber(item.newInterval) &&
+  isFiniteNumber(item.timeSpentMs) &&
+  (item.removed === undefined || item.removed === true);
+
+// Older backups also carry lapses and leech; CardFlags.replaceAll drops them
+const isCardFlags = (item: unknown): item is CardFlagState =>
+  isObject(item) &&
+  typeof item.suspended === 'boolean' &&
+  (item.buriedUntil === undefined || isFiniteNumber(item.buriedUntil)) &&
+  (item.updatedAt === undefined || isFiniteNumber(item.updatedAt));
+
+const isLessonDay = (item: unknown): item is number =>
+  isFiniteNumber(item) && Number.isInteger(item) && item >= 1 && item <= 112;
+
+const isStreakDay = (item: unknown): item is StreakData =>
+  isObject(item) &&
+  typeof item.date === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(item.date) &&
+  isFiniteNumber(item.lessonsCompleted) &&
+  isFiniteNumber(item.wordsLearned);
+
+const isWord = (item: unknown): item is string => typeof item === 'string' && item.trim() !== '';
+
+const isPhraseStatus = (item: unknown): item is PhraseStatus =>
+  item === 'confident' || item === 'needs-practice';
+
+function validateSettings(value: unknown): Validated<BackupSettings> | null {
+  if (!isObject(value)) return null;
+  const settings: BackupSettings = {};
+  let dropped = 0;
+
+  if (value.dailyLimits !== undefined) {
+    const limits = value.dailyLimits;
+    if (
+      isObject(limits) &&
+      [limits.maxNewPerDay, limits.maxReviewsPerDay, limits.reviewsPerNewCard].every(
+        n => isFiniteNumber(n) && n >= 0
+      )
+    ) {
+      settings.dailyLimits = limits as unknown as DailyLimitSettings;
+    } else {
+      dropped += 1;
+    }
+  }
+  if (value.scheduler !== undefined) {
+    if (value.scheduler === 'sm2' || value.scheduler === 'fsrs') {
+      settings.scheduler = value.scheduler;
+    } else {
+      dropped += 1;
+    }
+  }
+  return { value: settings, dropped };
+}
+
+function validateSection(section: BackupSection, value: unknown): Validated<unknown> | null {
+  switch (section) {
+    case 'cards':
+      return validateList(value, isCard);
+    case 'reviewLog':
+      return validateList(value, isLogEntry);
+    case 'cardFlags':
+      return validateRecord(value, isCardFlags);
+    case 'completedLessons':
+      return validateList(value, isLessonDay);
+    case 'streakData':
+      return validateList(value, isStreakDay);
+    case 'learnedWords':
+      return validateList(value, isWord);
+    case 'phraseStatuses':
+      return validateRecord(value, isPhraseStatus);
+    case 'settings':
+      return validateSettings(value);
+  }
+}
+
+function countItems(value: unknown): number {
+  if (Array.isArray(value)) return value.length;
+  if (isObject(value)) return Object.keys(value).length;
+  return 0;
+}
+
+// ---------------------------------------------------------------------------
+// Merging: what to keep when both the device and the backup have data
+
+// Cards saved before updatedAt existed fall back to their last review
+function cardTime(card: ReviewCard): number {
+  return card.updatedAt ?? new Date(card.lastReview ?? card.nextReview).getTime();
+}
+
+// Ties are broken on content so both sides of a merge pick the same copy
+function newer<T>(a: T, b: T, time: (item: T) => number): T {
+  const diff = time(b) - time(a);
+  if (diff !== 0) return diff > 0 ? b : a;
+  return JSON.stringify(b) > JSON.stringify(a) ? b : a;
+}
+
+function mergeByKey<T>(current: T[], incoming: T[], key: (item: T) => string, pick: (a: T, b: T) => T): T[] {
+  const merged = new Map(current.map(item => [key(item), item]));
+  incoming.forEach(item => {
+    const existing = merged.get(key(item));
+    merged.set(key(item), existing ? pick(existing, item) : item);
+  });
+  return Array.from(merged.values());
+}
+
+const MERGERS: { [K in BackupSection]: (current: NonNullable<BackupData[K]>, incoming: NonNullable<BackupData[K]>) => NonNullable<BackupData[K]> } = {
+  // Most recently changed copy of a card wins, so undo and lapse resets stick
+  cards: (current, incoming) =>
+    mergeByKey(current, incoming, card => card.word, (a, b) => newer(a, b, cardTime)),
+  // Union of both histories; a review undone on either side stays removed
+  reviewLog: (current, incoming) =>
+    mergeByKey(current, incoming, entry => `${entry.word}|${entry.timestamp}`, (a, b) =>
+      newer(a, b, entry => (entry.removed ? 1 : 0))
+    ).sort((a, b) => a.timestamp - b.timestamp),
+  // Most recently changed flags win, so unsuspending or resetting sticks
+  cardFlags: (current, incoming) => {
+    const merged = { ...current };
+    Object.entries(incoming).forEach(([word, flags]) => {
+      const existing = merged[word];
+      merged[word] = existing ? newer(existing, flags, item => item.updatedAt ?? 0) : flags;
+    });
+    return merged;
+  },
+  completedLessons: (current, incoming) =>
+    Array.from(new Set([...current, ...incoming])).sort((a, b) => a - b),
+  streakData: (current, incoming) =>
+    mergeByKey(current, incoming, day => day.date, (a, b) => ({
+      date: a.date,
+      lessonsCompleted: Math.max(a.lessonsCompleted, b.lessonsCompleted),
+      wordsLearned: Math.max(a.wordsLearned, b.wordsLearned),
+    })).sort((a, b) => a.date.localeCompare(b.date)),
+  learnedWords: (current, incoming) => Array.from(new Set([...current, ...incoming])),
+  // Statuses and settings from the backup replace the device's
+  phraseStatuses: (current, incoming) => ({ ...current, ...incoming }),
+  settings: (current, incoming) => ({ ...current, ...incoming }),
+};
+
+/**
+ * Combine two snapshots section by section; incoming wins where the
+ * rules above can't decide
+ */
+export function mergeBackupData(current: BackupData, incoming: BackupData): BackupData {
+  const merged: BackupData = { ...current };
+  for (const section of SECTIONS) {
+    const ours = current[section];
+    const theirs = incoming[section];
+    if (theirs === undefined) continue;
+
+    const merge = MERGERS[section] as (current: unknown, incoming: unknown) => unknown;
+    (merged as Record<BackupSection, unknown>)[section] = ours === undefined ? theirs : merge(ours, theirs);
+  }
+  return merged;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+
+/**
+ * Keep the valid sections and items of current-version data
+ */
+export function repairBackupData(raw: unknown): Pick<ImportReport, 'sections' | 'issues'> & { data: BackupData } {
+  const data: BackupData = {};
+  const result: Pick<ImportReport, 'sections' | 'issues'> = { sections: {}, issues: [] };
+  if (!isObject(raw)) return { data, ...result, issues: ['Nenhum dado encontrado.'] };
+
+  for (const section of SECTIONS) {
+    if (raw[section] === undefined) continue;
+
+    const validated = validateSection(section, raw[section]);
+    if (!validated) {
+      result.issues.push(`Seção "${section}" ignorada: formato inválido.`);
+      continue;
+    }
+    (data as Record<BackupSection, unknown>)[section] = validated.value;
+    result.sections[section] = { imported: countItems(validated.value), dropped: validated.dropped };
+    if (validated.dropped > 0) {
+      result.issues.push(`Seção "${section}": ${validated.dropped} ${validated.dropped === 1 ? 'item inválido removido' : 'itens inválidos removidos'}.`);
+    }
+  }
+  return { data, ...result };
+}
+
+/**
+ * Parse, migrate and repair a backup without writing anything.
+ * Throws BackupError when the file can't be used at all.
+ */
+export function parseBackup(json: string): { data: BackupData; report: Omit<ImportReport, 'mode'> } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new BackupError('O arquivo não é um JSON válido.');
+  }
+
+  const envelope = readEnvelope(parsed);
+  const { data: raw } = migrate(envelope);
+  const { data, sections, issues } = repairBackupData(raw);
+
+  if (Object.keys(data).length === 0) {
+    throw new BackupError('O backup não contém nenhum dado reconhecido.');
+  }
+  return { data, report: { fromVersion: envelope.version, sections, issues } };
+}
+
+/**
+ * Import a backup. "merge" combines it with the data on this device,
+ * "replace" overwrites each section the backup contains.
+ */
+export async function importBackup(json: string, mode: ImportMode = 'merge'): Promise<ImportReport> {
+  const { data, report } = parseBackup(json);
+
+  const value = mode === 'merge'
+    ? mergeBackupData(await readBackupData(Object.keys(data) as BackupSection[]), data)
+    : data;
+  await writeBackupData(value);
+
+  notifyReviewChange();
+  return { ...report, mode };
+}
@@ -0,0 +1,131 @@
+/**
+ * Card Flags
+ * Per-card suspended / buried flags, kept beside the SRS cards. Suspended
+ * cards stay out of every queue until reactivated; buried cards come back
+ * the next day. Lapses and leeches come from the cards themselves.
+ */
+
+import { notifyReviewChange, subscribeExternalChanges } from '@/lib/reviewStore';
+import { profileStorageKey } from '@/lib/profiles';
+
+export interface CardFlagState {
+  suspended: boolean;
+  buriedUntil?: number; // Start of the day the card returns
+  updatedAt?: number; // Last change, so the newest copy wins when devices merge
+}
+
+const STORAGE_KEY = 'vocab112_card_flags';
+
+const EMPTY_FLAGS: CardFlagState = { suspended: false };
+
+// Stored flags may still carry the lapse count and leech flag kept here before
+function toFlagState({ suspended, buriedUntil, updatedAt }: CardFlagState): CardFlagState {
+  return {
+    suspended: Boolean(suspended),
+    ...(buriedUntil !== undefined ? { buriedUntil } : {}),
+    ...(updatedAt !== undefined ? { updatedAt } : {}),
+  };
+}
+
+function normalizeKey(word: string): string {
+  return word.toLowerCase().trim();
+}
+
+function startOfTomorrow(now: number): number {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + 1);
+  return date.getTime();
+}
+
+export class CardFlags {
+  private static cache: Record<string, CardFlagState> | null = null;
+  private static cacheKey: string | null = null; // Storage key of the cached profile
+
+  private static load(profileId?: string): Record<string, CardFlagState> {
+    const key = profileStorageKey(STORAGE_KEY, profileId);
+    if (this.cache && this.cacheKey === key) return this.cache;
+    this.cacheKey = key;
+    if (typeof localStorage === 'undefined') return (this.cache = {});
+
+    try {
+      const stored: Record<string, CardFlagState> = JSON.parse(localStorage.getItem(key) ?? '{}');
+      this.cache = Object.fromEntries(
+        Object.entries(stored).map(([word, flags]) => [word, toFlagState(flags)])
+      );
+    } catch {
+      this.cache = {};
+    }
+    return this.cache ?? {};
+  }
+
+  private static save(flags: Record<string, CardFlagState>): void {
+    const key = profileStorageKey(STORAGE_KEY);
+    this.cache = flags;
+    this.cacheKey = key;
+    try {
+      localStorage.setItem(key, JSON.stringify(flags));
+    } catch (error) {
+      console.error('Failed to save card flags:', error);
+    }
+    notifyReviewChange();
+  }
+
+  private static update(word: string, changes: Partial<CardFlagState>): CardFlagState {
+    const key = normalizeKey(word);
+    const all = this.load();
+    const updated = { ...EMPTY_FLAGS, ...all[key], ...changes, updatedAt: Date.now() };
+    this.save({ ...all, [key]: updated });
+    return updated;
+  }
+
+  /**
+   * Replace every card's flags (backup import)
+   */
+  static replaceAll(flags: Record<string, CardFlagState>): void {
+    this.save(Object.fromEntries(Object.entries(flags).map(([word, state]) => [word, toFlagState(state)])));
+  }
+
+  /**
+   * Forget the in-memory copy so the next read comes from storage
+   */
+  static invalidate(): void {
+    this.cache = null;
+  }
+
+  static get(word: string): CardFlagState {
+    return { ...EMPTY_FLAGS, ...this.load()[normalizeKey(word)] };
+  }
+
+  static getAll(profileId?: string): Record<string, CardFlagState> {
+    return { ...this.load(profileId) };
+  }
+
+  static suspend(word: string): void {
+    this.update(word, { suspended: true });
+  }
+
+  static unsuspend(word: string): void {
+    this.update(word, { suspended: false });
+  }
+
+  static bury(word: string, now: number = Date.now()): void {
+    this.update(word, { buriedUntil: startOfTomorrow(now) });
+  }
+
+  static unbury(word: string): void {
+    this.update(word, { buriedUntil: undefined });
+  }
+
+  /**
+   * Whether the card may be shown in a review queue right now
+   */
+  static isAvailable(word: string, now: number = Date.now()): boolean {
+    const flags = this.load()[normalizeKey(word)];
+    if (!flags) return true;
+    if (flags.suspended) return false;
+    return !flags.buriedUntil || flags.buriedUntil <= now;
+  }
+}
+
+subscribeExternalChanges(() => CardFlags.invalidate());
@@ -0,0 +1,95 @@
+/**
+ * Card Repository Tests
+ * The IndexedDB store keeps cards between connections, and the review
+ * cards stay in localStorage when the database won't open
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { MemoryStorage } from '@/lib/memoryStorage';
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+const LEGACY_KEY = 'vocab112_srs_cards';
+
+async function loadSRS() {
+  vi.resetModules();
+  const { SpacedRepetitionSystem } = await import('@/lib/spacedRepetition');
+  await SpacedRepetitionSystem.init();
+  return SpacedRepetitionSystem;
+}
+
+// Flush the repository writes save() starts without awaiting
+async function settle() {
+  await new Promise(resolve => setTimeout(resolve, 20));
+}
+
+describe('IndexedDBCardRepository', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores, replaces and deletes cards by word', async () => {
+    const { IndexedDBCardRepository } = await import('@/lib/cardRepository');
+    const repository = new IndexedDBCardRepository<{ word: string; interval: number }>('test');
+    await repository.putMany([{ word: 'house', interval: 1 }, { word: 'dog', interval: 2 }]);
+    await repository.put({ word: 'house', interval: 5 });
+    await repository.delete('dog');
+
+    const reopened = new IndexedDBCardRepository<{ word: string; interval: number }>('test');
+    expect(await reopened.getAll()).toEqual([{ word: 'house', interval: 5 }]);
+    expect(await reopened.get('dog')).toBeUndefined();
+
+    await reopened.clear();
+    expect(await repository.getAll()).toEqual([]);
+  });
+});
+
+describe('createCardRepository', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('moves the old localStorage cards into IndexedDB', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    localStorage.setItem(LEGACY_KEY, JSON.stringify([
+      { word: 'dog', lessonDay: 2, nextReview: T0, interval: 0, easeFactor: 2.5, repetitions: 0 },
+    ]));
+
+    await loadSRS();
+    const SRS = await loadSRS();
+
+    expect(SRS.getAllCards().map(card => card.word)).toEqual(['dog']);
+    expect(localStorage.getItem('vocab112_cards_migrated')).not.toBeNull();
+  });
+
+  it("keeps the cards in localStorage when IndexedDB won't open", async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const factory = new IDBFactory();
+    vi.spyOn(factory, 'open').mockImplementation(() => {
+      throw new DOMException('Storage is blocked', 'SecurityError');
+    });
+    vi.stubGlobal('indexedDB', factory);
+    localStorage.setItem(LEGACY_KEY, JSON.stringify([
+      { word: 'dog', lessonDay: 2, nextReview: T0, interval: 0, easeFactor: 2.5, repetitions: 0 },
+    ]));
+
+    const SRS = await loadSRS();
+    SRS.addCards(['house'], 1, T0);
+    await settle();
+
+    expect(SRS.getAllCards().map(card => card.word)).toEqual(['dog', 'house']);
+    const stored = JSON.parse(localStorage.getItem(LEGACY_KEY) ?? '[]') as { word: string }[];
+    expect(stored.map(card => card.word)).toEqual(['dog', 'house']);
+    // Moved to IndexedDB once it opens again
+    expect(localStorage.getItem('vocab112_cards_migrated')).toBeNull();
+  });
+});
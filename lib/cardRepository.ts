@@ -0,0 +1,303 @@
+/**
+ * Card Repository
+ * Storage interface for review cards with IndexedDB (production),
+ * localStorage (compatibility, and where IndexedDB won't open) and
+ * in-memory (tests, SSR) backends, plus the one-time move of existing
+ * localStorage cards to IndexedDB
+ */
+
+import type { ReviewCard } from '@/lib/spacedRepetition';
+import { profileStorageKey } from '@/lib/profiles';
+
+export interface CardRepository<T extends { word: string } = ReviewCard> {
+  getAll(): Promise<T[]>;
+  get(word: string): Promise<T | undefined>;
+  put(card: T): Promise<void>;
+  putMany(cards: T[]): Promise<void>;
+  delete(word: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemoryCardRepository<T extends { word: string } = ReviewCard> implements CardRepository<T> {
+  private cards = new Map<string, T>();
+
+  constructor(initial: T[] = []) {
+    initial.forEach(card => this.cards.set(card.word, card));
+  }
+
+  async getAll(): Promise<T[]> {
+    return Array.from(this.cards.values());
+  }
+
+  async get(word: string): Promise<T | undefined> {
+    return this.cards.get(word);
+  }
+
+  async put(card: T): Promise<void> {
+    this.cards.set(card.word, card);
+  }
+
+  async putMany(cards: T[]): Promise<void> {
+    cards.forEach(card => this.cards.set(card.word, card));
+  }
+
+  async delete(word: string): Promise<void> {
+    this.cards.delete(word);
+  }
+
+  async clear(): Promise<void> {
+    this.cards.clear();
+  }
+}
+
+/**
+ * Cards as one JSON value under a single key. Reads both an array of
+ * cards and an object keyed by word; always writes an array.
+ */
+export class LocalStorageCardRepository<T extends { word: string } = ReviewCard> implements CardRepository<T> {
+  constructor(readonly storageKey: string) {}
+
+  private read(): Map<string, T> {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      const cards = (Array.isArray(parsed) ? parsed : Object.values(parsed ?? {})) as T[];
+      return new Map(cards.filter(card => card && typeof card.word === 'string').map(card => [card.word, card]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private write(cards: Map<string, T>): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(Array.from(cards.values())));
+  }
+
+  async getAll(): Promise<T[]> {
+    return Array.from(this.read().values());
+  }
+
+  async get(word: string): Promise<T | undefined> {
+    return this.read().get(word);
+  }
+
+  async put(card: T): Promise<void> {
+    await this.putMany([card]);
+  }
+
+  async putMany(cards: T[]): Promise<void> {
+    const stored = this.read();
+    cards.forEach(card => stored.set(card.word, card));
+    this.write(stored);
+  }
+
+  async delete(word: string): Promise<void> {
+    const stored = this.read();
+    stored.delete(word);
+    this.write(stored);
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.storageKey);
+  }
+}
+
+function requestResult<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * One record per card, keyed by word, so large collections
+ * don't need to be rewritten on every review
+ */
+export class IndexedDBCardRepository<T extends { word: string } = ReviewCard> implements CardRepository<T> {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string = 'vocab112',
+    private readonly storeName: string = 'cards'
+  ) {}
+
+  /**
+   * The database, opened on first use. Rejects where IndexedDB is
+   * unusable, e.g. in private mode or with storage blocked.
+   */
+  open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName, { keyPath: 'word' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  async getAll(): Promise<T[]> {
+    return requestResult((await this.objectStore('readonly')).getAll());
+  }
+
+  async get(word: string): Promise<T | undefined> {
+    return requestResult((await this.objectStore('readonly')).get(word));
+  }
+
+  async put(card: T): Promise<void> {
+    await this.putMany([card]);
+  }
+
+  async putMany(cards: T[]): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    cards.forEach(card => store.put(card));
+    await transactionDone(store.transaction);
+  }
+
+  async delete(word: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    store.delete(word);
+    await transactionDone(store.transaction);
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    store.clear();
+    await transactionDone(store.transaction);
+  }
+}
+
+/**
+ * IndexedDB when its database opens, `fallback` when it doesn't. The
+ * choice is made on first use and kept for the repository's lifetime.
+ */
+export class FallbackCardRepository<T extends { word: string } = ReviewCard> implements CardRepository<T> {
+  private backend: Promise<CardRepository<T>> | null = null;
+
+  constructor(
+    private readonly primary: IndexedDBCardRepository<T>,
+    private readonly fallback: CardRepository<T>
+  ) {}
+
+  /**
+   * The repository actually in use
+   */
+  resolve(): Promise<CardRepository<T>> {
+    if (!this.backend) {
+      this.backend = this.primary.open().then(
+        () => this.primary,
+        error => {
+          console.error('Failed to open card database, using fallback storage:', error);
+          return this.fallback;
+        }
+      );
+    }
+    return this.backend;
+  }
+
+  async getAll(): Promise<T[]> {
+    return (await this.resolve()).getAll();
+  }
+
+  async get(word: string): Promise<T | undefined> {
+    return (await this.resolve()).get(word);
+  }
+
+  async put(card: T): Promise<void> {
+    return (await this.resolve()).put(card);
+  }
+
+  async putMany(cards: T[]): Promise<void> {
+    return (await this.resolve()).putMany(cards);
+  }
+
+  async delete(word: string): Promise<void> {
+    return (await this.resolve()).delete(word);
+  }
+
+  async clear(): Promise<void> {
+    return (await this.resolve()).clear();
+  }
+}
+
+/**
+ * IndexedDB in the browser, in-memory where it isn't available (SSR, tests).
+ * Where IndexedDB exists but won't open, cards stay in the old localStorage
+ * store under `legacyKey` (in memory without one, or without localStorage).
+ * The default database belongs to the active learner profile.
+ */
+export function createCardRepository<T extends { word: string } = ReviewCard>(
+  dbName: string = profileStorageKey('vocab112'),
+  legacyKey?: string
+): CardRepository<T> {
+  if (typeof indexedDB === 'undefined') return new MemoryCardRepository<T>();
+  const fallback = legacyKey && typeof localStorage !== 'undefined'
+    ? new LocalStorageCardRepository<T>(legacyKey)
+    : new MemoryCardRepository<T>();
+  return new FallbackCardRepository<T>(new IndexedDBCardRepository<T>(dbName), fallback);
+}
+
+const MIGRATION_FLAG_KEY = 'vocab112_cards_migrated';
+
+/**
+ * Copy cards from the old localStorage store into `target`, once.
+ * Cards already in the target win; the localStorage copy is left in place
+ * as a backup. Returns the number of cards copied.
+ */
+export async function migrateLocalStorageCards<T extends { word: string }>(
+  legacyKey: string,
+  target: CardRepository<T>,
+  flagKey: string = profileStorageKey(MIGRATION_FLAG_KEY)
+): Promise<number> {
+  if (typeof localStorage === 'undefined' || localStorage.getItem(flagKey)) return 0;
+  // Still on the old store (IndexedDB didn't open): move the cards next time
+  const store = target instanceof FallbackCardRepository ? await target.resolve() : target;
+  if (store instanceof LocalStorageCardRepository && store.storageKey === legacyKey) return 0;
+
+  const legacyCards = await new LocalStorageCardRepository<T>(legacyKey).getAll();
+  const existing = new Set((await target.getAll()).map(card => card.word));
+  const toCopy = legacyCards.filter(card => !existing.has(card.word));
+
+  await target.putMany(toCopy);
+  localStorage.setItem(flagKey, new Date().toISOString());
+  return toCopy.length;
+}
+
+/**
+ * A profile's cards without loading or migrating anything: its database
+ * plus, until the migration has run, the cards still in localStorage
+ */
+export async function readProfileCards<T extends { word: string }>(
+  legacyKey: string,
+  profileId: string
+): Promise<T[]> {
+  const legacyStorageKey = profileStorageKey(legacyKey, profileId);
+  const stored = await createCardRepository<T>(profileStorageKey('vocab112', profileId), legacyStorageKey).getAll();
+  if (typeof localStorage === 'undefined' || localStorage.getItem(profileStorageKey(MIGRATION_FLAG_KEY, profileId))) {
+    return stored;
+  }
+  const existing = new Set(stored.map(card => card.word));
+  const legacyCards = await new LocalStorageCardRepository<T>(legacyStorageKey).getAll();
+  return [...stored, ...legacyCards.filter(card => !existing.has(card.word))];
+}
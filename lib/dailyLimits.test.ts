@@ -0,0 +1,37 @@
+/**
+ * Daily Limits Tests
+ * New cards are told apart by the card's own review state
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/lib/memoryStorage';
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+
+async function loadLimits() {
+  vi.resetModules();
+  const { SpacedRepetitionSystem } = await import('@/lib/spacedRepetition');
+  await SpacedRepetitionSystem.init();
+  const { DailyLimits } = await import('@/lib/dailyLimits');
+  return { SRS: SpacedRepetitionSystem, DailyLimits };
+}
+
+describe('DailyLimits.buildQueue', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  it('treats cards reviewed before the log existed as reviews', async () => {
+    localStorage.setItem('vocab112_srs_cards', JSON.stringify([
+      { word: 'house', lessonDay: 1, nextReview: T0, interval: 12, easeFactor: 2.5, repetitions: 3 },
+      { word: 'dog', lessonDay: 1, nextReview: T0, interval: 6, easeFactor: 2.5, repetitions: 2 },
+    ]));
+    const { SRS, DailyLimits } = await loadLimits();
+    SRS.addCards(['run', 'jump'], 2, T0);
+    DailyLimits.saveSettings({ maxNewPerDay: 1 });
+
+    const queue = DailyLimits.buildQueue(SRS.getDueCards(T0), Infinity, T0);
+
+    expect(queue.map(card => card.word).sort()).toEqual(['dog', 'house', 'run']);
+  });
+});
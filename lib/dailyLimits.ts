@@ -0,0 +1,140 @@
+/**
+ * Daily Limits
+ * Caps on new cards and reviews per day, and the policy for mixing new
+ * cards into the review queue. Today's counts come from the review log,
+ * so they carry over between sessions and ignore undone ratings.
+ */
+
+import type { ReviewCard } from '@/lib/spacedRepetition';
+import { ReviewLog, toDateKey } from '@/lib/reviewLog';
+import { CardFlags } from '@/lib/cardFlags';
+import { notifyReviewChange } from '@/lib/reviewStore';
+import { profileStorageKey } from '@/lib/profiles';
+
+export interface DailyLimitSettings {
+  maxNewPerDay: number;
+  maxReviewsPerDay: number;
+  reviewsPerNewCard: number; // One new card after every N reviews
+}
+
+export interface DailyCounts {
+  newCards: number;
+  reviews: number;
+}
+
+export const DEFAULT_DAILY_LIMITS: DailyLimitSettings = {
+  maxNewPerDay: 10,
+  maxReviewsPerDay: 100,
+  reviewsPerNewCard: 4,
+};
+
+const SETTINGS_KEY = 'vocab112_daily_limits';
+
+export class DailyLimits {
+  static getSettings(profileId?: string): DailyLimitSettings {
+    if (typeof localStorage === 'undefined') return DEFAULT_DAILY_LIMITS;
+    try {
+      const stored = localStorage.getItem(profileStorageKey(SETTINGS_KEY, profileId));
+      return stored ? { ...DEFAULT_DAILY_LIMITS, ...JSON.parse(stored) } : DEFAULT_DAILY_LIMITS;
+    } catch {
+      return DEFAULT_DAILY_LIMITS;
+    }
+  }
+
+  static saveSettings(settings: Partial<DailyLimitSettings>): DailyLimitSettings {
+    const updated = { ...this.getSettings(), ...settings };
+    localStorage.setItem(profileStorageKey(SETTINGS_KEY), JSON.stringify(updated));
+    notifyReviewChange();
+    return updated;
+  }
+
+  /**
+   * Cards studied today: a word counts as new when today is the first
+   * time it appears in the log and it had no interval before, otherwise
+   * as a review (once per word)
+   */
+  static getTodayCounts(now: number = Date.now()): DailyCounts {
+    const today = toDateKey(now);
+    const seenBefore = new Set<string>();
+    const newToday = new Set<string>();
+    const reviewedToday = new Set<string>();
+
+    for (const entry of ReviewLog.getEntries()) {
+      const word = entry.word.toLowerCase();
+      if (toDateKey(entry.timestamp) !== today) {
+        if (entry.timestamp < now) seenBefore.add(word);
+        continue;
+      }
+      if (newToday.has(word) || reviewedToday.has(word)) continue;
+
+      if (seenBefore.has(word) || entry.previousInterval > 0) {
+        reviewedToday.add(word);
+      } else {
+        newToday.add(word);
+      }
+    }
+
+    return { newCards: newToday.size, reviews: reviewedToday.size };
+  }
+
+  static getRemaining(now: number = Date.now()): DailyCounts {
+    const settings = this.getSettings();
+    const counts = this.getTodayCounts(now);
+    return {
+      newCards: Math.max(0, settings.maxNewPerDay - counts.newCards),
+      reviews: Math.max(0, settings.maxReviewsPerDay - counts.reviews),
+    };
+  }
+
+  /**
+   * Today's queue from the due cards: suspended and buried cards left out,
+   * reviews and new cards capped by what is left of the daily limits,
+   * new cards spread among the reviews
+   */
+  static buildQueue<T extends ReviewCard>(
+    dueCards: T[],
+    maxCards: number = Infinity,
+    now: number = Date.now()
+  ): T[] {
+    const settings = this.getSettings();
+    const remaining = this.getRemaining(now);
+
+    const newCards: T[] = [];
+    const reviews: T[] = [];
+    dueCards
+      .filter(card => CardFlags.isAvailable(card.word, now))
+      .forEach(card => (isNewCard(card) ? newCards : reviews).push(card));
+
+    return interleave(
+      reviews.slice(0, remaining.reviews),
+      newCards.slice(0, remaining.newCards),
+      settings.reviewsPerNewCard
+    ).slice(0, maxCards);
+  }
+}
+
+/**
+ * A card that has never been reviewed
+ */
+export function isNewCard(card: ReviewCard): boolean {
+  return card.lastReview === undefined && card.repetitions === 0 && card.lapses === 0;
+}
+
+/**
+ * One new card after every `reviewsPerNewCard` reviews; leftovers of
+ * either kind go at the end
+ */
+export function interleave<T>(reviews: T[], newCards: T[], reviewsPerNewCard: number): T[] {
+  const spacing = Math.max(1, Math.round(reviewsPerNewCard));
+  const result: T[] = [];
+  let newIndex = 0;
+
+  reviews.forEach((card, idx) => {
+    result.push(card);
+    if ((idx + 1) % spacing === 0 && newIndex < newCards.length) {
+      result.push(newCards[newIndex++]);
+    }
+  });
+
+  return [...result, ...newCards.slice(newIndex)];
+}
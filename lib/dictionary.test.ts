@@ -0,0 +1,43 @@
+/**
+ * Word Dictionary Tests
+ * Only well-formed lesson words are indexed, and subscribers hear about
+ * every load
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { WordDictionary } from '@/lib/dictionary';
+import type { Lesson } from '@/types/lesson';
+
+function lesson(day: number, newWords: unknown[]): Lesson {
+  return { day, week: 1, title: `Day ${day}`, new_words: newWords };
+}
+
+describe('WordDictionary', () => {
+  it('indexes strings and word objects and skips malformed items', () => {
+    WordDictionary.load([
+      lesson(1, [
+        ' house ',
+        { word: 'dog', translation: 'cachorro', definition: 42 },
+        { word: 7 },
+        null,
+        '',
+      ]),
+    ]);
+
+    expect(WordDictionary.size).toBe(2);
+    expect(WordDictionary.lookup('house')).toEqual({ word: 'house', lessonDay: 1 });
+    expect(WordDictionary.lookup('dog')).toMatchObject({ portuguese: 'cachorro', definition: undefined });
+  });
+
+  it('tells subscribers when a load finishes', () => {
+    const listener = vi.fn();
+    const unsubscribe = WordDictionary.subscribe(listener);
+    const before = WordDictionary.version;
+
+    WordDictionary.load([lesson(2, ['cat'])]);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(WordDictionary.version).toBe(before + 1);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Word Dictionary
+ * Index of every lesson word, resolving a word (and optionally its lesson day)
+ * to full WordData. Load it once with the lesson content at app start,
+ * before the first render (e.g. in main.tsx), so review and quiz screens
+ * opened directly find their words:
+ *
+ *   WordDictionary.load(lessons);
+ *
+ * LessonGrid also loads whatever lessons it is given, as a fallback.
+ * Until it is loaded every lookup misses; components that use
+ * useWordDictionary() re-render once it is.
+ */
+
+import type { Lesson } from '@/types/lesson';
+import type { WordData } from '@/components/WordFlashcard';
+
+export interface DictionaryEntry extends WordData {
+  lessonDay: number;
+}
+
+type Listener = () => void;
+
+function normalizeKey(word: string): string {
+  return word.toLowerCase().trim();
+}
+
+function fillMissing<K extends keyof DictionaryEntry>(
+  target: Partial<DictionaryEntry>,
+  source: DictionaryEntry,
+  key: K
+): void {
+  if (target[key] === undefined) target[key] = source[key];
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+// Lesson files list words either as plain strings or as word objects;
+// anything else is skipped
+function toEntry(item: unknown, lessonDay: number): DictionaryEntry | null {
+  if (typeof item === 'string') {
+    return item.trim() ? { word: item.trim(), lessonDay } : null;
+  }
+  if (!item || typeof item !== 'object') return null;
+
+  const fields = item as Record<string, unknown>;
+  const word = optionalString(fields.word)?.trim();
+  if (!word) return null;
+
+  return {
+    word,
+    definition: optionalString(fields.definition),
+    portuguese: optionalString(fields.portuguese) ?? optionalString(fields.translation),
+    pronunciation: optionalString(fields.pronunciation),
+    partOfSpeech: optionalString(fields.partOfSpeech),
+    example: optionalString(fields.example),
+    lessonDay,
+  };
+}
+
+export class WordDictionary {
+  private static entries = new Map<string, DictionaryEntry[]>();
+  private static loadedFrom: Lesson[] | null = null;
+  private static listeners = new Set<Listener>();
+  private static loadVersion = 0;
+
+  /**
+   * Index all words introduced by the given lessons (replaces any previous index)
+   */
+  static load(lessons: Lesson[]): void {
+    if (lessons === this.loadedFrom) return;
+    const entries = new Map<string, DictionaryEntry[]>();
+
+    for (const lesson of lessons) {
+      const words: unknown[] = Array.isArray(lesson.new_words) ? lesson.new_words : [];
+      for (const item of words) {
+        const entry = toEntry(item, lesson.day);
+        if (!entry) continue;
+
+        const key = normalizeKey(entry.word);
+        entries.set(key, [...(entries.get(key) ?? []), entry]);
+      }
+    }
+
+    this.entries = entries;
+    this.loadedFrom = lessons;
+    this.loadVersion += 1;
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Called after every load, so screens rendered before it can fill in word details
+   */
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Increases on every load; a cheap snapshot for useSyncExternalStore
+   */
+  static get version(): number {
+    return this.loadVersion;
+  }
+
+  static get isLoaded(): boolean {
+    return this.loadedFrom !== null;
+  }
+
+  static get size(): number {
+    return this.entries.size;
+  }
+
+  static has(word: string): boolean {
+    return this.entries.has(normalizeKey(word));
+  }
+
+  /**
+   * Find a word, preferring the entry from `lessonDay` when the word
+   * appears in several lessons. Returns null when the word isn't in the content.
+   */
+  static lookup(word: string, lessonDay?: number): DictionaryEntry | null {
+    const matches = this.entries.get(normalizeKey(word));
+    if (!matches || matches.length === 0) return null;
+
+    return matches.find(entry => entry.lessonDay === lessonDay) ?? matches[0];
+  }
+
+  /**
+   * Like lookup, but always returns WordData; unknown words come back
+   * with only the `word` field so callers can show their own fallback
+   */
+  static resolve(word: string, lessonDay?: number): WordData {
+    return this.lookup(word, lessonDay) ?? { word };
+  }
+
+  /**
+   * Fill in any missing fields of a partial word from the dictionary
+   */
+  static enrich<T extends { word: string; lessonDay?: number }>(
+    word: T
+  ): T & Partial<DictionaryEntry> {
+    const entry = this.lookup(word.word, word.lessonDay);
+    if (!entry) return word;
+
+    const enriched: T & Partial<DictionaryEntry> = { ...word };
+    (Object.keys(entry) as Array<keyof DictionaryEntry>).forEach(key => fillMissing(enriched, entry, key));
+    return enriched;
+  }
+}
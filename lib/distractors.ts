@@ -0,0 +1,92 @@
+/**
+ * Distractor Selection
+ * Picks plausible wrong options for multiple-choice and listening questions
+ */
+
+import { normalizeText, phoneticKey, similarity } from '@/lib/textUtils';
+import type { QuizWord, RandomSource } from '@/lib/quizEngine';
+
+export type DistractorMode = 'meaning' | 'sound';
+
+interface DistractorOptions {
+  mode: DistractorMode;
+  getText: (word: QuizWord) => string | undefined; // Text shown as the option
+  random: RandomSource;
+  count?: number;
+}
+
+/**
+ * CEFR level for a lesson day, matching the LessonGrid bands
+ */
+export function getLevelForDay(day: number): string {
+  if (day <= 28) return 'A1';
+  if (day <= 56) return 'A2';
+  if (day <= 84) return 'B1';
+  return 'B2';
+}
+
+function getLevel(word: QuizWord): string | undefined {
+  if (word.level) return word.level;
+  return word.lessonDay !== undefined ? getLevelForDay(word.lessonDay) : undefined;
+}
+
+function scoreCandidate(target: QuizWord, candidate: QuizWord, mode: DistractorMode): number {
+  let score = 0;
+
+  if (target.partOfSpeech && target.partOfSpeech === candidate.partOfSpeech) score += 3;
+
+  const targetLevel = getLevel(target);
+  if (targetLevel && targetLevel === getLevel(candidate)) score += 2;
+
+  if (
+    target.lessonDay !== undefined &&
+    candidate.lessonDay !== undefined &&
+    Math.abs(target.lessonDay - candidate.lessonDay) <= 7
+  ) {
+    score += 1;
+  }
+
+  const spelling = similarity(normalizeText(target.word), normalizeText(candidate.word));
+  if (mode === 'sound') {
+    if (phoneticKey(target.word) === phoneticKey(candidate.word)) score += 4;
+    score += spelling * 3;
+  } else {
+    score += spelling;
+  }
+
+  return score;
+}
+
+/**
+ * Select up to `count` distinct wrong options for a target word.
+ * Returns fewer options when the pool is too small; never returns
+ * duplicates or an option equal to the correct answer.
+ */
+export function selectDistractors(
+  target: QuizWord,
+  pool: QuizWord[],
+  { mode, getText, random, count = 3 }: DistractorOptions
+): string[] {
+  const answer = getText(target);
+  const seen = new Set<string>(answer ? [normalizeText(answer)] : []);
+
+  const ranked = pool
+    .filter(w => w.word !== target.word && getText(w))
+    // A little noise keeps equally good candidates from always winning
+    .map(w => ({ word: w, score: scoreCandidate(target, w, mode) + random() }))
+    .sort((a, b) => b.score - a.score);
+
+  const distractors: string[] = [];
+  for (const { word } of ranked) {
+    if (distractors.length >= count) break;
+
+    const text = getText(word)!;
+    const key = normalizeText(text);
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    distractors.push(text);
+  }
+
+  return distractors;
+}
@@ -0,0 +1,127 @@
+/**
+ * FSRS Scheduler
+ * Free Spaced Repetition Scheduler (v4.5) with default weights.
+ * Models each card by stability, difficulty and retrievability.
+ */
+
+import { DAY_MS, ReviewQuality } from '@/lib/srsConstants';
+import type { Scheduler, SchedulingState } from '@/lib/scheduler';
+
+// FSRS-4.5 default parameters (w0 - w16)
+const W = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367,
+  1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Makes R = 0.9 when elapsed time equals stability
+const DESIRED_RETENTION = 0.9;
+const MAX_INTERVAL_DAYS = 36500;
+
+// FSRS ratings are 1 (again) - 4 (easy)
+function toRating(quality: ReviewQuality): number {
+  return quality + 1;
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(10, Math.max(1, difficulty));
+}
+
+function initialStability(rating: number): number {
+  return Math.max(W[rating - 1], 0.1);
+}
+
+// D0(G) = w4 - (G - 3) * w5
+function initialDifficulty(rating: number): number {
+  return clampDifficulty(W[4] - (rating - 3) * W[5]);
+}
+
+export function forgettingCurve(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY);
+}
+
+function nextInterval(stability: number): number {
+  const interval = (stability / FACTOR) * (Math.pow(DESIRED_RETENTION, 1 / DECAY) - 1);
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(interval)));
+}
+
+function nextDifficulty(difficulty: number, rating: number): number {
+  const updated = difficulty - W[6] * (rating - 3);
+  // Mean reversion towards the difficulty of a "good" first rating
+  return clampDifficulty(W[7] * initialDifficulty(3) + (1 - W[7]) * updated);
+}
+
+function recallStability(difficulty: number, stability: number, retrievability: number, rating: number): number {
+  const hardPenalty = rating === 2 ? W[15] : 1;
+  const easyBonus = rating === 4 ? W[16] : 1;
+  return stability * (
+    Math.exp(W[8]) *
+    (11 - difficulty) *
+    Math.pow(stability, -W[9]) *
+    (Math.exp(W[10] * (1 - retrievability)) - 1) *
+    hardPenalty *
+    easyBonus +
+    1
+  );
+}
+
+function forgetStability(difficulty: number, stability: number, retrievability: number): number {
+  const next = W[11] *
+    Math.pow(difficulty, -W[12]) *
+    (Math.pow(stability + 1, W[13]) - 1) *
+    Math.exp(W[14] * (1 - retrievability));
+  return Math.min(next, stability);
+}
+
+export const fsrsScheduler: Scheduler = {
+  id: 'fsrs',
+  label: 'FSRS',
+
+  initialState(now) {
+    return { due: now, interval: 0, reps: 0, lapses: 0 };
+  },
+
+  review(state, quality, now) {
+    const rating = toRating(quality);
+    const { lastReview, stability: prevStability, difficulty: prevDifficulty } = state;
+
+    let stability: number;
+    let difficulty: number;
+    let lapses = state.lapses;
+
+    if (lastReview === undefined || prevStability === undefined || prevDifficulty === undefined) {
+      // First review (or a card never scheduled by FSRS)
+      stability = initialStability(rating);
+      difficulty = initialDifficulty(rating);
+    } else {
+      const elapsedDays = Math.max(0, (now - lastReview) / DAY_MS);
+      const retrievability = forgettingCurve(elapsedDays, prevStability);
+      difficulty = nextDifficulty(prevDifficulty, rating);
+      if (rating === 1) {
+        stability = forgetStability(prevDifficulty, prevStability, retrievability);
+        // Like SM-2, only a card that was recalled before can be forgotten
+        if (state.reps > 0) lapses += 1;
+      } else {
+        stability = recallStability(prevDifficulty, prevStability, retrievability, rating);
+      }
+    }
+
+    const interval = nextInterval(stability);
+    const next: SchedulingState = {
+      ...state,
+      due: now + interval * DAY_MS,
+      lastReview: now,
+      interval,
+      reps: rating === 1 ? 0 : state.reps + 1,
+      lapses,
+      stability,
+      difficulty,
+    };
+    return next;
+  },
+
+  retrievability(state, now) {
+    if (!state.lastReview || state.stability === undefined) return 0;
+    return forgettingCurve((now - state.lastReview) / DAY_MS, state.stability);
+  },
+};
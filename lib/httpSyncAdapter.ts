@@ -0,0 +1,57 @@
+/**
+ * HTTP Sync Adapter
+ * SyncAdapter for the reference sync server (server/syncServer.ts) or any
+ * endpoint with the same contract:
+ *
+ *   GET  {baseUrl}/sync/{userId}  -> 200 SyncSnapshot | 404
+ *   PUT  {baseUrl}/sync/{userId}  body { baseRevision, deviceId, data }
+ *                                 -> 200 SyncSnapshot | 409 { current }
+ */
+
+import type { BackupData } from '@/lib/backup';
+import { SyncConflictError, type SyncAdapter, type SyncSnapshot } from '@/lib/sync';
+
+export interface HttpSyncAdapterOptions {
+  baseUrl: string;
+  userId: string;
+  token?: string; // Sent as a bearer token when the server requires one
+}
+
+export class HttpSyncAdapter implements SyncAdapter {
+  private readonly url: string;
+
+  constructor(private readonly options: HttpSyncAdapterOptions) {
+    this.url = `${options.baseUrl.replace(/\/+$/, '')}/sync/${encodeURIComponent(options.userId)}`;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.token) headers.Authorization = `Bearer ${this.options.token}`;
+    return headers;
+  }
+
+  async pull(): Promise<SyncSnapshot | null> {
+    const response = await fetch(this.url, { headers: this.headers(), cache: 'no-store' });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Sync pull failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  async push(data: BackupData, baseRevision: number, deviceId: string): Promise<SyncSnapshot> {
+    const response = await fetch(this.url, {
+      method: 'PUT',
+      headers: this.headers(),
+      body: JSON.stringify({ baseRevision, deviceId, data }),
+    });
+    if (response.status === 409) {
+      const body = await response.json().catch(() => ({}));
+      throw new SyncConflictError(body.current ?? null);
+    }
+    if (!response.ok) {
+      throw new Error(`Sync push failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Inflection Tests
+ * Regular forms double a final consonant only where the last syllable is stressed
+ */
+
+import { describe, expect, it } from 'vitest';
+import { blankWord, getWordForms } from '@/lib/inflections';
+
+describe('getWordForms', () => {
+  it('doubles the final consonant of one-syllable words', () => {
+    expect(getWordForms('stop')).toEqual(expect.arrayContaining(['stopped', 'stopping']));
+    expect(getWordForms('big')).toEqual(expect.arrayContaining(['bigger', 'biggest']));
+    expect(getWordForms('plan')).toEqual(expect.arrayContaining(['planned', 'planning']));
+  });
+
+  it('keeps a single consonant when the last syllable is unstressed', () => {
+    expect(getWordForms('open')).toEqual(expect.arrayContaining(['opened', 'opening']));
+    expect(getWordForms('edit')).toEqual(expect.arrayContaining(['edited', 'editing']));
+    expect(getWordForms('exit')).toEqual(expect.arrayContaining(['exited', 'exiting']));
+    expect(getWordForms('visit')).toEqual(expect.arrayContaining(['visited', 'visiting']));
+    expect(getWordForms('open')).not.toContain('openned');
+  });
+
+  it('doubles longer words stressed on the last syllable', () => {
+    expect(getWordForms('prefer')).toEqual(expect.arrayContaining(['preferred', 'preferring']));
+  });
+});
+
+describe('blankWord', () => {
+  it('finds the real forms of "open" and "edit"', () => {
+    expect(blankWord('She opened the door.', 'open')).toEqual({ sentence: 'She ___ the door.', answer: 'opened' });
+    expect(blankWord('I am editing the text.', 'edit')).toEqual({ sentence: 'I am ___ the text.', answer: 'editing' });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Inflections
+ * English word forms for whole-word matching in fill-in-the-blank sentences
+ */
+
+// Irregular forms for the most common Oxford 3000 verbs and adjectives
+const IRREGULAR_FORMS: Record<string, string[]> = {
+  be: ['am', 'is', 'are', 'was', 'were', 'been', 'being'],
+  have: ['has', 'had', 'having'],
+  do: ['does', 'did', 'done', 'doing'],
+  go: ['goes', 'went', 'gone', 'going'],
+  say: ['says', 'said', 'saying'],
+  make: ['makes', 'made', 'making'],
+  get: ['gets', 'got', 'gotten', 'getting'],
+  know: ['knows', 'knew', 'known', 'knowing'],
+  think: ['thinks', 'thought', 'thinking'],
+  take: ['takes', 'took', 'taken', 'taking'],
+  see: ['sees', 'saw', 'seen', 'seeing'],
+  come: ['comes', 'came', 'coming'],
+  give: ['gives', 'gave', 'given', 'giving'],
+  find: ['finds', 'found', 'finding'],
+  tell: ['tells', 'told', 'telling'],
+  become: ['becomes', 'became', 'becoming'],
+  leave: ['leaves', 'left', 'leaving'],
+  feel: ['feels', 'felt', 'feeling'],
+  bring: ['brings', 'brought', 'bringing'],
+  begin: ['begins', 'began', 'begun', 'beginning'],
+  keep: ['keeps', 'kept', 'keeping'],
+  hold: ['holds', 'held', 'holding'],
+  write: ['writes', 'wrote', 'written', 'writing'],
+  stand: ['stands', 'stood', 'standing'],
+  hear: ['hears', 'heard', 'hearing'],
+  let: ['lets', 'letting'],
+  mean: ['means', 'meant', 'meaning'],
+  set: ['sets', 'setting'],
+  meet: ['meets', 'met', 'meeting'],
+  run: ['runs', 'ran', 'running'],
+  pay: ['pays', 'paid', 'paying'],
+  sit: ['sits', 'sat', 'sitting'],
+  speak: ['speaks', 'spoke', 'spoken', 'speaking'],
+  lie: ['lies', 'lay', 'lain', 'lying'],
+  lead: ['leads', 'led', 'leading'],
+  read: ['reads', 'reading'],
+  grow: ['grows', 'grew', 'grown', 'growing'],
+  lose: ['loses', 'lost', 'losing'],
+  fall: ['falls', 'fell', 'fallen', 'falling'],
+  send: ['sends', 'sent', 'sending'],
+  build: ['builds', 'built', 'building'],
+  understand: ['understands', 'understood', 'understanding'],
+  draw: ['draws', 'drew', 'drawn', 'drawing'],
+  break: ['breaks', 'broke', 'broken', 'breaking'],
+  spend: ['spends', 'spent', 'spending'],
+  cut: ['cuts', 'cutting'],
+  rise: ['rises', 'rose', 'risen', 'rising'],
+  drive: ['drives', 'drove', 'driven', 'driving'],
+  buy: ['buys', 'bought', 'buying'],
+  wear: ['wears', 'wore', 'worn', 'wearing'],
+  choose: ['chooses', 'chose', 'chosen', 'choosing'],
+  eat: ['eats', 'ate', 'eaten', 'eating'],
+  drink: ['drinks', 'drank', 'drunk', 'drinking'],
+  sleep: ['sleeps', 'slept', 'sleeping'],
+  swim: ['swims', 'swam', 'swum', 'swimming'],
+  sing: ['sings', 'sang', 'sung', 'singing'],
+  teach: ['teaches', 'taught', 'teaching'],
+  catch: ['catches', 'caught', 'catching'],
+  fight: ['fights', 'fought', 'fighting'],
+  fly: ['flies', 'flew', 'flown', 'flying'],
+  forget: ['forgets', 'forgot', 'forgotten', 'forgetting'],
+  sell: ['sells', 'sold', 'selling'],
+  win: ['wins', 'won', 'winning'],
+  throw: ['throws', 'threw', 'thrown', 'throwing'],
+  wake: ['wakes', 'woke', 'woken', 'waking'],
+  child: ['children'],
+  man: ['men'],
+  woman: ['women'],
+  person: ['people'],
+  foot: ['feet'],
+  tooth: ['teeth'],
+  mouse: ['mice'],
+  good: ['better', 'best'],
+  bad: ['worse', 'worst'],
+  far: ['farther', 'farthest', 'further', 'furthest'],
+  many: ['more', 'most'],
+  much: ['more', 'most'],
+  little: ['less', 'least'],
+};
+
+const VOWELS = 'aeiou';
+
+// Longer words stressed on their last syllable, which double like "stop"
+const STRESSED_LAST_SYLLABLE = new Set([
+  'admit', 'commit', 'control', 'occur', 'omit', 'permit', 'prefer',
+  'refer', 'regret', 'submit', 'transfer', 'upset', 'equip', 'compel',
+]);
+
+/**
+ * A stressed final consonant-vowel-consonant doubles its consonant:
+ * one-syllable words ("stop" -> "stopped", "big" -> "bigger") and the
+ * listed longer ones ("prefer" -> "preferred"), but not "open" or "edit"
+ */
+function doublesFinalConsonant(word: string): boolean {
+  if (word.length < 3) return false;
+  const [a, b, c] = word.slice(-3);
+  if (VOWELS.includes(a) || !VOWELS.includes(b) || VOWELS.includes(c) || 'wxy'.includes(c)) return false;
+  const syllables = word.match(/[aeiou]+/g)?.length ?? 0;
+  return syllables === 1 || STRESSED_LAST_SYLLABLE.has(word);
+}
+
+function regularForms(word: string): string[] {
+  const forms: string[] = [];
+  const last = word.slice(-1);
+  const stem = word.slice(0, -1);
+  const doubled = doublesFinalConsonant(word) ? word + last : word;
+
+  // Plural / third person
+  if (/(s|x|z|ch|sh|o)$/.test(word)) {
+    forms.push(word + 'es');
+  } else if (last === 'y' && !VOWELS.includes(word.slice(-2, -1))) {
+    forms.push(stem + 'ies');
+  } else {
+    forms.push(word + 's');
+  }
+
+  // Past, progressive, comparative and superlative
+  if (last === 'e') {
+    forms.push(word + 'd', stem + 'ing', word + 'r', word + 'st');
+    if (word.endsWith('ie')) forms.push(word.slice(0, -2) + 'ying');
+  } else if (last === 'y' && !VOWELS.includes(word.slice(-2, -1))) {
+    forms.push(stem + 'ied', word + 'ing', stem + 'ier', stem + 'iest');
+  } else {
+    forms.push(doubled + 'ed', doubled + 'ing', doubled + 'er', doubled + 'est');
+  }
+
+  return forms;
+}
+
+/**
+ * All forms of a word, base form first
+ */
+export function getWordForms(word: string): string[] {
+  const base = word.toLowerCase().trim();
+  if (base.includes(' ')) return [base]; // Multi-word entries are matched literally
+
+  const irregular = IRREGULAR_FORMS[base];
+  const forms = irregular ? [base, ...irregular] : [base, ...regularForms(base)];
+  return Array.from(new Set(forms));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match of any form, longest first so "eating" wins over "eat"
+function formsPattern(word: string, flags: string): RegExp {
+  const forms = getWordForms(word).sort((a, b) => b.length - a.length);
+  return new RegExp(`\\b(${forms.map(escapeRegExp).join('|')})\\b`, flags);
+}
+
+/**
+ * Find the first whole-word occurrence of any form of `word` in a sentence
+ */
+export function findWordForm(sentence: string, word: string): string | null {
+  const match = sentence.match(formsPattern(word, 'i'));
+  return match ? match[1] : null;
+}
+
+/**
+ * Blank every form of `word` in a text ("eat", "ate", "eating" alike), so
+ * a hint doesn't give the answer away through an inflected form
+ */
+export function blankAllForms(text: string, word: string): string {
+  return text.replace(formsPattern(word, 'gi'), '___');
+}
+
+/**
+ * Replace the form of `word` found in the sentence with a blank.
+ * Returns null when the sentence doesn't contain the word.
+ */
+export function blankWord(sentence: string, word: string): { sentence: string; answer: string } | null {
+  const form = findWordForm(sentence, word);
+  if (!form) return null;
+
+  return {
+    sentence: sentence.replace(new RegExp(`\\b${escapeRegExp(form)}\\b`, 'gi'), '___'),
+    answer: form.toLowerCase(),
+  };
+}
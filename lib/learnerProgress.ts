@@ -0,0 +1,108 @@
+/**
+ * Learner Progress
+ * Completed lessons, daily study history (for the streak calendar) and
+ * words marked as learned on the flashcards, per profile. Getters read the
+ * active profile unless given another profile's id.
+ */
+
+import type { StreakData } from '@/components/StreakCalendar';
+import { toDateKey } from '@/lib/reviewLog';
+import { notifyReviewChange } from '@/lib/reviewStore';
+import { profileStorageKey } from '@/lib/profiles';
+
+const COMPLETED_LESSONS_KEY = 'vocab112_completed_lessons';
+const STREAK_DATA_KEY = 'vocab112_streak_data';
+const LEARNED_WORDS_KEY = 'vocab112_learned_words';
+
+function read<T>(key: string, fallback: T, profileId?: string): T {
+  if (typeof localStorage === 'undefined') return fallback;
+  try {
+    const stored = localStorage.getItem(profileStorageKey(key, profileId));
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function write(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(profileStorageKey(key), JSON.stringify(value));
+  } catch (error) {
+    console.error('Failed to save learner progress:', error);
+  }
+  notifyReviewChange();
+}
+
+export class LearnerProgress {
+  static getCompletedLessons(profileId?: string): number[] {
+    return read<number[]>(COMPLETED_LESSONS_KEY, [], profileId);
+  }
+
+  /**
+   * Mark a lesson as done; the first completion also counts on today's streak
+   */
+  static completeLesson(lessonDay: number, now: number = Date.now()): void {
+    const completed = this.getCompletedLessons();
+    if (completed.includes(lessonDay)) return;
+    this.replaceCompletedLessons([...completed, lessonDay]);
+    this.recordStudy({ lessonsCompleted: 1 }, now);
+  }
+
+  static replaceCompletedLessons(lessons: number[]): void {
+    write(COMPLETED_LESSONS_KEY, Array.from(new Set(lessons)).sort((a, b) => a - b));
+  }
+
+  /**
+   * Study activity per day, oldest first
+   */
+  static getStreakData(profileId?: string): StreakData[] {
+    return read<StreakData[]>(STREAK_DATA_KEY, [], profileId);
+  }
+
+  /**
+   * Add to today's lessons and words in the streak history
+   */
+  static recordStudy(
+    { lessonsCompleted = 0, wordsLearned = 0 }: Partial<Omit<StreakData, 'date'>>,
+    now: number = Date.now()
+  ): void {
+    const date = toDateKey(now);
+    const days = this.getStreakData();
+    const today = days.find(day => day.date === date) ?? { date, lessonsCompleted: 0, wordsLearned: 0 };
+    this.replaceStreakData([
+      ...days.filter(day => day.date !== date),
+      {
+        date,
+        lessonsCompleted: today.lessonsCompleted + lessonsCompleted,
+        wordsLearned: today.wordsLearned + wordsLearned,
+      },
+    ]);
+  }
+
+  static replaceStreakData(days: StreakData[]): void {
+    write(STREAK_DATA_KEY, [...days].sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  static getLearnedWords(profileId?: string): string[] {
+    return read<string[]>(LEARNED_WORDS_KEY, [], profileId);
+  }
+
+  static isWordLearned(word: string): boolean {
+    return this.getLearnedWords().includes(word);
+  }
+
+  /**
+   * Mark a flashcard word as learned or not; newly learned words count
+   * on today's streak
+   */
+  static setWordLearned(word: string, learned: boolean, now: number = Date.now()): void {
+    const words = this.getLearnedWords();
+    if (words.includes(word) === learned) return;
+    this.replaceLearnedWords(learned ? [...words, word] : words.filter(w => w !== word));
+    if (learned) this.recordStudy({ wordsLearned: 1 }, now);
+  }
+
+  static replaceLearnedWords(words: string[]): void {
+    write(LEARNED_WORDS_KEY, Array.from(new Set(words)));
+  }
+}
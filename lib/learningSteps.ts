@@ -0,0 +1,174 @@
+/**
+ * Learning Steps
+ * In-session queue for review cards. Cards rated AGAIN go through short
+ * relearning steps (e.g. 1 min, 10 min) and come back in the same session
+ * until they are recalled and graduate back to the long-term schedule.
+ *
+ * The queue is plain data so it can be snapshotted and restored.
+ */
+
+import { ReviewQuality } from '@/lib/spacedRepetition';
+
+// Minutes until a failed card is shown again, one entry per step
+export const DEFAULT_LEARNING_STEPS = [1, 10];
+
+const MINUTE_MS = 60 * 1000;
+
+export interface QueueItem<T> {
+  card: T;
+  step: number | null; // Relearning step, null on the card's first showing
+}
+
+export interface LearningEntry<T> extends QueueItem<T> {
+  step: number;
+  dueAt: number;
+}
+
+export interface SessionQueue<T> {
+  pending: T[]; // Not shown yet this session, in order
+  learning: LearningEntry<T>[]; // Waiting for their next step, soonest first
+  current: QueueItem<T> | null;
+  shown: number; // Cards shown so far, including repeats
+}
+
+/**
+ * reviewed  - first answer, card leaves the session
+ * lapsed    - first answer was AGAIN, card enters relearning
+ * step      - answered during relearning, card comes back again
+ * graduated - recalled during relearning, card leaves the session
+ */
+export type QueueOutcome = 'reviewed' | 'lapsed' | 'step' | 'graduated';
+
+export function createSessionQueue<T>(cards: T[]): SessionQueue<T> {
+  const [first, ...pending] = cards;
+  return {
+    pending,
+    learning: [],
+    current: first !== undefined ? { card: first, step: null } : null,
+    shown: first !== undefined ? 1 : 0,
+  };
+}
+
+export function remainingCount<T>(queue: SessionQueue<T>): number {
+  return queue.pending.length + queue.learning.length + (queue.current ? 1 : 0);
+}
+
+/**
+ * Due learning cards come first, then new session cards. When only
+ * learning cards are left, the soonest one is shown early rather than
+ * making the learner wait.
+ */
+function advance<T>(queue: SessionQueue<T>, now: number): SessionQueue<T> {
+  const [soonest, ...otherLearning] = queue.learning;
+
+  if (soonest && (soonest.dueAt <= now || queue.pending.length === 0)) {
+    return {
+      ...queue,
+      learning: otherLearning,
+      current: { card: soonest.card, step: soonest.step },
+      shown: queue.shown + 1,
+    };
+  }
+
+  const [next, ...pending] = queue.pending;
+  if (next === undefined) {
+    return { ...queue, current: null };
+  }
+  return {
+    ...queue,
+    pending,
+    current: { card: next, step: null },
+    shown: queue.shown + 1,
+  };
+}
+
+function schedule<T>(
+  queue: SessionQueue<T>,
+  card: T,
+  step: number,
+  steps: number[],
+  now: number
+): SessionQueue<T> {
+  const entry: LearningEntry<T> = { card, step, dueAt: now + steps[step] * MINUTE_MS };
+  const learning = [...queue.learning, entry].sort((a, b) => a.dueAt - b.dueAt);
+  return { ...queue, learning };
+}
+
+/**
+ * Apply a rating to the current card and move on to the next one
+ */
+export function answerCurrent<T>(
+  queue: SessionQueue<T>,
+  quality: ReviewQuality,
+  steps: number[] = DEFAULT_LEARNING_STEPS,
+  now: number = Date.now()
+): { queue: SessionQueue<T>; outcome: QueueOutcome } {
+  const current = queue.current;
+  if (!current) return { queue, outcome: 'reviewed' };
+
+  if (current.step === null) {
+    if (quality !== ReviewQuality.AGAIN || steps.length === 0) {
+      return { queue: advance(queue, now), outcome: 'reviewed' };
+    }
+    return { queue: advance(schedule(queue, current.card, 0, steps, now), now), outcome: 'lapsed' };
+  }
+
+  let nextStep: number;
+  switch (quality) {
+    case ReviewQuality.AGAIN:
+      nextStep = 0;
+      break;
+    case ReviewQuality.HARD:
+      nextStep = current.step;
+      break;
+    case ReviewQuality.GOOD:
+      nextStep = current.step + 1;
+      break;
+    default:
+      nextStep = steps.length; // EASY graduates right away
+  }
+
+  if (nextStep >= steps.length) {
+    return { queue: advance(queue, now), outcome: 'graduated' };
+  }
+  return { queue: advance(schedule(queue, current.card, nextStep, steps, now), now), outcome: 'step' };
+}
+
+/**
+ * Minutes until the card comes back in this session for a rating,
+ * or null when the rating hands it to the long-term schedule
+ */
+export function previewStep(
+  step: number | null,
+  quality: ReviewQuality,
+  steps: number[] = DEFAULT_LEARNING_STEPS
+): number | null {
+  if (steps.length === 0) return null;
+  if (step === null) return quality === ReviewQuality.AGAIN ? steps[0] : null;
+
+  switch (quality) {
+    case ReviewQuality.AGAIN:
+      return steps[0];
+    case ReviewQuality.HARD:
+      return steps[step];
+    case ReviewQuality.GOOD:
+      return step + 1 < steps.length ? steps[step + 1] : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Take the current card out of the session without rating it
+ * (suspended or buried), including any relearning steps it had left
+ */
+export function removeCurrent<T>(queue: SessionQueue<T>, now: number = Date.now()): SessionQueue<T> {
+  return advance(queue, now);
+}
+
+/**
+ * "1 min", "10 min", "2 h" for showing a step length
+ */
+export function formatStep(minutes: number): string {
+  return minutes < 60 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+}
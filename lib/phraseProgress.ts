@@ -0,0 +1,44 @@
+/**
+ * Phrase Progress
+ * "Got it" / "Need practice" status of each practice phrase, by its English text
+ */
+
+import { profileStorageKey } from '@/lib/profiles';
+
+export type PhraseStatus = 'confident' | 'needs-practice';
+
+const STORAGE_KEY = 'vocab112_phrase_statuses';
+
+export class PhraseProgress {
+  static getAll(profileId?: string): Record<string, PhraseStatus> {
+    if (typeof localStorage === 'undefined') return {};
+    try {
+      const stored = localStorage.getItem(profileStorageKey(STORAGE_KEY, profileId));
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  static get(phrase: string): PhraseStatus | null {
+    return this.getAll()[phrase] ?? null;
+  }
+
+  static set(phrase: string, status: PhraseStatus | null): void {
+    const all = this.getAll();
+    if (status) {
+      all[phrase] = status;
+    } else {
+      delete all[phrase];
+    }
+    this.replaceAll(all);
+  }
+
+  static replaceAll(statuses: Record<string, PhraseStatus>): void {
+    try {
+      localStorage.setItem(profileStorageKey(STORAGE_KEY), JSON.stringify(statuses));
+    } catch (error) {
+      console.error('Failed to save phrase progress:', error);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Profile Tests
+ * Another profile's data is read by id, PINs guard their own changes and
+ * every tab follows a switch
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/lib/memoryStorage';
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+
+async function loadProfiles() {
+  vi.resetModules();
+  const profiles = await import('@/lib/profiles');
+  const { SpacedRepetitionSystem } = await import('@/lib/spacedRepetition');
+  await SpacedRepetitionSystem.init();
+  const { LearnerProgress } = await import('@/lib/learnerProgress');
+  const { exportBackup } = await import('@/lib/backup');
+  const { subscribeReviewChanges } = await import('@/lib/reviewStore');
+  return { ...profiles, SRS: SpacedRepetitionSystem, LearnerProgress, exportBackup, subscribeReviewChanges };
+}
+
+describe('Profiles', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("exports another profile's progress without touching the active one", async () => {
+    const { Profiles, SRS, LearnerProgress, exportBackup, profileStorageKey, getActiveProfileId } =
+      await loadProfiles();
+    const other = Profiles.create('Ana');
+    localStorage.setItem(profileStorageKey('vocab112_srs_cards', other.id), JSON.stringify([
+      { word: 'dog', lessonDay: 2, nextReview: T0, interval: 0, easeFactor: 2.5, repetitions: 0 },
+    ]));
+    localStorage.setItem(profileStorageKey('vocab112_completed_lessons', other.id), JSON.stringify([2]));
+    SRS.addCards(['house'], 1, T0);
+
+    const exported = exportBackup(new Date(T0), other.id);
+    LearnerProgress.completeLesson(1, T0);
+    const { data } = await exported;
+
+    expect(getActiveProfileId()).toBe('default');
+    expect(data.cards?.map(card => card.word)).toEqual(['dog']);
+    expect(data.completedLessons).toEqual([2]);
+    expect(LearnerProgress.getCompletedLessons()).toEqual([1]);
+    expect(LearnerProgress.getCompletedLessons(other.id)).toEqual([2]);
+  });
+
+  it('asks for the current PIN before changing or removing it', async () => {
+    const { Profiles, ProfileError } = await loadProfiles();
+    const id = Profiles.getActive().id;
+    await Profiles.setPin(id, '1234');
+
+    await expect(Profiles.setPin(id, null)).rejects.toBeInstanceOf(ProfileError);
+    await expect(Profiles.setPin(id, '9999', '0000')).rejects.toBeInstanceOf(ProfileError);
+    expect(await Profiles.verifyPin(id, '1234')).toBe(true);
+
+    await Profiles.setPin(id, null, '1234');
+    expect(Profiles.hasPin(id)).toBe(false);
+  });
+
+  it('follows a switch made in another tab', async () => {
+    const events = new EventTarget();
+    vi.stubGlobal('window', events);
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const { Profiles, getActiveProfileId, subscribeReviewChanges } = await loadProfiles();
+    const other = Profiles.create('Ana');
+    const beforeSwitch = vi.fn();
+    Profiles.onBeforeSwitch(beforeSwitch);
+    const unsubscribe = subscribeReviewChanges(() => {});
+
+    // What the other tab's switchTo leaves in storage
+    const registry = JSON.parse(localStorage.getItem('vocab112_profiles') ?? '{}');
+    localStorage.setItem('vocab112_profiles', JSON.stringify({ ...registry, activeId: other.id }));
+    events.dispatchEvent(Object.assign(new Event('storage'), { key: 'vocab112_profiles' }));
+
+    expect(getActiveProfileId()).toBe(other.id);
+    expect(beforeSwitch).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Learner Profiles
+ * Several learners on one device, each with separate progress. Every
+ * store keeps its data under profileStorageKey(key), so switching the
+ * active profile switches the SRS cards, review history, lessons, streaks
+ * and settings together. Readers that take a profile id (e.g. for export)
+ * read that profile's copy without switching to it:
+ *
+ *   localStorage.getItem(profileStorageKey('vocab112_completed_lessons', profileId))
+ *
+ * The default profile keeps the original, un-suffixed keys, so progress
+ * from before profiles existed becomes its data without a migration.
+ *
+ * A PIN only keeps learners out of each other's profiles in the UI; the
+ * data itself stays readable in browser storage.
+ */
+
+import { notifyReviewChange, subscribeExternalChanges } from '@/lib/reviewStore';
+
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string; // Emoji
+  createdAt: number;
+  pinHash?: string;
+}
+
+interface ProfileRegistry {
+  profiles: Profile[];
+  activeId: string;
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PROFILE_AVATARS = ['🦊', '🐼', '🐸', '🦁', '🐙', '🦉', '🐢', '🚀'];
+
+// Device-wide: the list of profiles is never itself namespaced
+const REGISTRY_KEY = 'vocab112_profiles';
+
+// IndexedDB databases created per profile (see cardRepository)
+const PROFILE_DATABASES = ['vocab112'];
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+const beforeSwitchListeners = new Set<Listener>();
+
+let cache: ProfileRegistry | null = null;
+
+function defaultRegistry(): ProfileRegistry {
+  return {
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Eu', avatar: PROFILE_AVATARS[0], createdAt: Date.now() }],
+    activeId: DEFAULT_PROFILE_ID,
+  };
+}
+
+function loadRegistry(): ProfileRegistry {
+  if (cache) return cache;
+  if (typeof localStorage === 'undefined') return (cache = defaultRegistry());
+
+  try {
+    const stored = localStorage.getItem(REGISTRY_KEY);
+    const parsed: ProfileRegistry | null = stored ? JSON.parse(stored) : null;
+    cache = parsed && Array.isArray(parsed.profiles) && parsed.profiles.length > 0 ? parsed : defaultRegistry();
+  } catch {
+    cache = defaultRegistry();
+  }
+  if (!cache.profiles.some(profile => profile.id === cache?.activeId)) {
+    cache = { ...cache, activeId: cache.profiles[0].id };
+  }
+  return cache;
+}
+
+function saveRegistry(registry: ProfileRegistry): void {
+  cache = registry;
+  try {
+    localStorage.setItem(REGISTRY_KEY, JSON.stringify(registry));
+  } catch (error) {
+    console.error('Failed to save profiles:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+function createProfileId(): string {
+  return `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * PIN digest, salted with the profile id. Falls back to a plain string
+ * hash where SubtleCrypto isn't available (non-HTTPS pages).
+ */
+async function hashPin(profileId: string, pin: string): Promise<string> {
+  const input = `${profileId}:${pin}`;
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash = Math.imul(hash ^ input.charCodeAt(i), 0x01000193);
+  }
+  return `fnv-${(hash >>> 0).toString(16)}`;
+}
+
+export function getActiveProfileId(): string {
+  return loadRegistry().activeId;
+}
+
+/**
+ * Storage key for the given (by default the active) profile's copy of `key`
+ */
+export function profileStorageKey(key: string, profileId: string = getActiveProfileId()): string {
+  return profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+}
+
+export class Profiles {
+  static getAll(): Profile[] {
+    return loadRegistry().profiles;
+  }
+
+  static get(id: string): Profile | undefined {
+    return loadRegistry().profiles.find(profile => profile.id === id);
+  }
+
+  static getActive(): Profile {
+    const registry = loadRegistry();
+    return registry.profiles.find(profile => profile.id === registry.activeId) ?? registry.profiles[0];
+  }
+
+  static create(name: string, avatar: string = PROFILE_AVATARS[0]): Profile {
+    const trimmed = name.trim();
+    if (!trimmed) throw new ProfileError('Digite um nome para o perfil.');
+
+    const registry = loadRegistry();
+    if (registry.profiles.some(profile => profile.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new ProfileError('Já existe um perfil com esse nome.');
+    }
+
+    const profile: Profile = { id: createProfileId(), name: trimmed, avatar, createdAt: Date.now() };
+    saveRegistry({ ...registry, profiles: [...registry.profiles, profile] });
+    return profile;
+  }
+
+  static update(id: string, changes: Partial<Pick<Profile, 'name' | 'avatar'>>): void {
+    const registry = loadRegistry();
+    saveRegistry({
+      ...registry,
+      profiles: registry.profiles.map(profile =>
+        profile.id === id ? { ...profile, ...changes, name: changes.name?.trim() || profile.name } : profile
+      ),
+    });
+  }
+
+  static hasPin(id: string): boolean {
+    return Boolean(this.get(id)?.pinHash);
+  }
+
+  static async verifyPin(id: string, pin: string): Promise<boolean> {
+    const profile = this.get(id);
+    if (!profile?.pinHash) return true;
+    return profile.pinHash === (await hashPin(id, pin));
+  }
+
+  /**
+   * Set or (with null) remove a profile's PIN. A profile that already has
+   * one needs it (currentPin) before it can be changed.
+   */
+  static async setPin(id: string, pin: string | null, currentPin: string = ''): Promise<void> {
+    if (!(await this.verifyPin(id, currentPin))) throw new ProfileError('PIN atual incorreto.');
+    if (pin !== null && !/^\d{4,8}$/.test(pin)) {
+      throw new ProfileError('O PIN deve ter de 4 a 8 números.');
+    }
+    const pinHash = pin === null ? undefined : await hashPin(id, pin);
+    const registry = loadRegistry();
+    saveRegistry({
+      ...registry,
+      profiles: registry.profiles.map(profile => (profile.id === id ? { ...profile, pinHash } : profile)),
+    });
+  }
+
+  /**
+   * Make another profile active. Components holding unsaved work for the
+   * current profile are asked to save it first (onBeforeSwitch).
+   */
+  static async switchTo(id: string, pin?: string): Promise<void> {
+    const registry = loadRegistry();
+    if (registry.activeId === id) return;
+    if (!this.get(id)) throw new ProfileError('Perfil não encontrado.');
+    if (!(await this.verifyPin(id, pin ?? ''))) throw new ProfileError('PIN incorreto.');
+
+    beforeSwitchListeners.forEach(listener => listener());
+    saveRegistry({ ...loadRegistry(), activeId: id });
+    notifyReviewChange();
+  }
+
+  /**
+   * Delete a profile and all of its stored data. The active profile
+   * can't be deleted; switch away from it first.
+   */
+  static async delete(id: string): Promise<void> {
+    const registry = loadRegistry();
+    if (registry.activeId === id) throw new ProfileError('Troque de perfil antes de excluir este.');
+    if (!this.get(id)) return;
+
+    removeProfileData(id);
+    await Promise.all(PROFILE_DATABASES.map(name => deleteDatabase(profileStorageKey(name, id))));
+    saveRegistry({ ...registry, profiles: registry.profiles.filter(profile => profile.id !== id) });
+  }
+
+  /**
+   * Registry changes: profiles added, edited, removed or switched
+   */
+  static subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called right before the active profile changes, while storage still
+   * points at the old one. A switch made in another tab is only seen
+   * afterwards; listeners are called then, before the registry listeners.
+   */
+  static onBeforeSwitch(listener: Listener): () => void {
+    beforeSwitchListeners.add(listener);
+    return () => {
+      beforeSwitchListeners.delete(listener);
+    };
+  }
+}
+
+function removeProfileData(id: string): void {
+  if (typeof localStorage === 'undefined') return;
+
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith('vocab112_') || key === REGISTRY_KEY) continue;
+    // The default profile owns the un-suffixed keys
+    const owned = id === DEFAULT_PROFILE_ID ? !key.includes(':') : key.endsWith(`:${id}`);
+    if (owned) keys.push(key);
+  }
+  keys.forEach(key => localStorage.removeItem(key));
+}
+
+function deleteDatabase(name: string): Promise<void> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve();
+  return new Promise(resolve => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    // Best effort: a blocked or failed delete leaves an orphaned database
+    request.onerror = () => resolve();
+    request.onblocked = () => resolve();
+  });
+}
+
+// Another tab switched or edited profiles. This tab follows a switch, so
+// state held for the previous learner is dropped like on a local switch.
+subscribeExternalChanges(() => {
+  const previousActiveId = cache?.activeId;
+  cache = null;
+  const { activeId } = loadRegistry();
+  if (previousActiveId === undefined || activeId === previousActiveId) return;
+  beforeSwitchListeners.forEach(listener => listener());
+  listeners.forEach(listener => listener());
+});
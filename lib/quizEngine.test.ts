@@ -0,0 +1,94 @@
+/**
+ * Quiz Engine Tests
+ * Seeded rounds must replay exactly; fallbacks must never leave a round empty
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  createRandom,
+  generateQuestion,
+  generateQuiz,
+  MIN_CHOICE_OPTIONS,
+  TYPED_QUIZ_TYPES,
+  type QuizConfig,
+  type QuizWord
+} from '@/lib/quizEngine';
+
+const WORDS: QuizWord[] = [
+  { word: 'house', portuguese: 'casa', definition: 'a building people live in', partOfSpeech: 'noun', level: 'A1', lessonDay: 1 },
+  { word: 'dog', portuguese: 'cachorro', definition: 'an animal that barks', partOfSpeech: 'noun', level: 'A1', lessonDay: 1 },
+  { word: 'run', portuguese: 'correr', definition: 'to move fast on foot', partOfSpeech: 'verb', level: 'A1', lessonDay: 2 },
+  { word: 'happy', portuguese: 'feliz', definition: 'feeling good', partOfSpeech: 'adjective', level: 'A1', lessonDay: 2 },
+  { word: 'book', portuguese: 'livro', definition: 'pages you read', partOfSpeech: 'noun', level: 'A1', lessonDay: 3 },
+  { word: 'eat', portuguese: 'comer', definition: 'to have food', partOfSpeech: 'verb', level: 'A1', lessonDay: 3 },
+  { word: 'water', portuguese: 'água', definition: 'a clear drink', partOfSpeech: 'noun', level: 'A1', lessonDay: 4 },
+  { word: 'slow', portuguese: 'lento', definition: 'not fast', partOfSpeech: 'adjective', level: 'A2', lessonDay: 4 },
+];
+
+const CONFIG: QuizConfig = {
+  questionCount: 6,
+  types: ['multiple-choice', 'listening', 'reverse-choice', 'matching', 'definition'],
+  phrases: ['The dog is happy.', 'I eat at home.'],
+};
+
+describe('generateQuiz', () => {
+  it('replays the same round for the same seed', () => {
+    expect(generateQuiz(WORDS, CONFIG, 42)).toEqual(generateQuiz(WORDS, CONFIG, 42));
+    expect(generateQuiz(WORDS, CONFIG, '2025-11-14')).toEqual(generateQuiz(WORDS, CONFIG, '2025-11-14'));
+  });
+
+  it('builds different rounds for different seeds', () => {
+    expect(generateQuiz(WORDS, CONFIG, 1)).not.toEqual(generateQuiz(WORDS, CONFIG, 2));
+  });
+
+  it('does not depend on the order words are given in', () => {
+    const round = generateQuiz(WORDS, CONFIG, 7);
+    expect(round.map(q => q.word.word).sort()).toEqual(
+      generateQuiz([...WORDS].reverse(), CONFIG, 7).map(q => q.word.word).sort()
+    );
+  });
+
+  it('falls back to the default types when none are configured', () => {
+    const round = generateQuiz(WORDS, { ...CONFIG, types: [] }, 3);
+    expect(round).toHaveLength(CONFIG.questionCount);
+  });
+
+  it('skips words that cannot be asked', () => {
+    const round = generateQuiz([...WORDS, { word: '' }, { word: '   ' }], { ...CONFIG, questionCount: 20 }, 5);
+    expect(round).toHaveLength(WORDS.length);
+    expect(round.every(q => q.word.word.trim())).toBe(true);
+  });
+
+  it('returns an empty round only when no word is usable', () => {
+    expect(generateQuiz([], CONFIG, 1)).toEqual([]);
+    expect(generateQuiz([{ word: ' ' }], CONFIG, 1)).toEqual([]);
+  });
+
+  it('asks a typed question when a choice question would have too few options', () => {
+    const round = generateQuiz(WORDS.slice(0, 2), { ...CONFIG, types: ['multiple-choice', 'listening'] }, 9);
+    expect(round).toHaveLength(2);
+    expect(round.every(q => TYPED_QUIZ_TYPES.includes(q.type))).toBe(true);
+  });
+
+  it('never shows fewer than the minimum number of options', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      generateQuiz(WORDS.slice(0, 3), CONFIG, seed)
+        .filter(q => q.options && !q.pairs)
+        .forEach(q => expect(q.options!.length).toBeGreaterThanOrEqual(MIN_CHOICE_OPTIONS));
+    }
+  });
+
+  it('never offers a synonym as a wrong reverse-choice option', () => {
+    const words = [...WORDS, { word: 'home', portuguese: 'lar, casa', partOfSpeech: 'noun', level: 'A1', lessonDay: 1 }];
+    for (let seed = 0; seed < 20; seed++) {
+      const question = generateQuestion('reverse-choice', words[0], words, CONFIG, createRandom(seed));
+      expect(question.options).not.toContain('home');
+    }
+  });
+
+  it('accepts every word with the same translation in reverse typing', () => {
+    const words = [...WORDS, { word: 'home', portuguese: 'lar, casa' }];
+    const question = generateQuestion('reverse-typed', words[0], words, CONFIG, createRandom(1));
+    expect(question.acceptedAnswers).toEqual(['house', 'home']);
+  });
+});
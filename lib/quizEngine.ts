@@ -0,0 +1,409 @@
+/**
+ * Quiz Engine
+ * Seeded, pure question generation for MultiTypeQuiz
+ *
+ * The same words, config and seed always produce the same questions, so a
+ * quiz can be replayed, shared as a daily challenge or unit-tested without React.
+ */
+
+import { selectDistractors } from '@/lib/distractors';
+import { blankWord } from '@/lib/inflections';
+import { splitAlternatives } from '@/lib/answerGrading';
+import { normalizeText } from '@/lib/textUtils';
+
+export type QuizType =
+  | 'multiple-choice' // English → pick Portuguese
+  | 'fill-blank'
+  | 'listening' // Hear → pick English
+  | 'matching'
+  | 'reverse-choice' // Portuguese → pick English
+  | 'reverse-typed' // Portuguese → type English
+  | 'definition' // Definition → type English
+  | 'dictation'; // Hear → type English
+
+// Fewest options a choice question may show; smaller word pools get a
+// typed question instead of a near-giveaway
+export const MIN_CHOICE_OPTIONS = 3;
+
+// Used when a quiz is configured without any question types
+export const DEFAULT_QUIZ_TYPES: QuizType[] = ['multiple-choice', 'fill-blank', 'listening'];
+
+// Question types answered by typing rather than picking an option
+export const TYPED_QUIZ_TYPES: QuizType[] = ['fill-blank', 'reverse-typed', 'definition', 'dictation'];
+
+export interface QuizWord {
+  word: string;
+  definition?: string;
+  portuguese?: string;
+  example?: string;
+  partOfSpeech?: string;
+  level?: string; // CEFR level (A1-B2)
+  lessonDay?: number;
+}
+
+export interface MatchingPair {
+  word: string;
+  match: string;
+}
+
+export interface QuizQuestion {
+  type: QuizType;
+  word: QuizWord;
+  correctAnswer: string;
+  acceptedAnswers?: string[]; // Other answers graded as correct
+  options?: string[]; // For multiple choice
+  sentence?: string; // For fill-in-blank (with ___ placeholder)
+  pairs?: MatchingPair[]; // For matching (each pair is scored separately)
+  matchBy?: 'portuguese' | 'definition'; // For matching
+  retryOf?: number; // Index of the missed question this one re-asks
+}
+
+export interface QuizConfig {
+  questionCount: number;
+  types: QuizType[];
+  phrases?: string[]; // Lesson phrases, used as fill-in-blank sentences
+  streaks?: Record<string, number>; // Correct answers in a row per word (adaptive mode)
+}
+
+// Easiest to hardest: recognition first, typed recall last
+export const QUIZ_TYPE_DIFFICULTY: QuizType[] = [
+  'matching',
+  'multiple-choice',
+  'listening',
+  'reverse-choice',
+  'fill-blank',
+  'definition',
+  'reverse-typed',
+  'dictation',
+];
+
+export type QuizSeed = number | string;
+
+export type RandomSource = () => number;
+
+/**
+ * Create a fresh random seed for quizzes that don't need to be replayed
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff);
+}
+
+/**
+ * Hash a seed to a 32-bit integer (strings like "2025-11-14" are allowed)
+ */
+function hashSeed(seed: QuizSeed): number {
+  if (typeof seed === 'number') return seed >>> 0;
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createRandom(seed: QuizSeed): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Unbiased Fisher-Yates shuffle; returns a new array
+ */
+export function shuffle<T>(items: readonly T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function pick<T>(items: readonly T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function translationKeys(word: QuizWord): string[] {
+  return word.portuguese ? splitAlternatives(word.portuguese).map(normalizeText) : [];
+}
+
+/**
+ * True when two different words can be translated the same way ("big" and
+ * "large" are both "grande"), so either one answers the other's prompt
+ */
+function sharesTranslation(a: QuizWord, b: QuizWord): boolean {
+  if (a.word === b.word) return false;
+  const keys = new Set(translationKeys(a));
+  return translationKeys(b).some(key => keys.has(key));
+}
+
+/**
+ * Words that answer the same Portuguese prompt as `word`
+ */
+function findSynonyms(word: QuizWord, allWords: QuizWord[]): QuizWord[] {
+  return allWords.filter(w => sharesTranslation(word, w));
+}
+
+export function generateMultipleChoice(
+  word: QuizWord,
+  allWords: QuizWord[],
+  random: RandomSource
+): QuizQuestion {
+  const wrongOptions = selectDistractors(word, allWords.filter(w => !sharesTranslation(word, w)), {
+    mode: 'meaning',
+    getText: w => w.portuguese,
+    random,
+  });
+
+  const options = shuffle([...wrongOptions, word.portuguese!], random);
+
+  return {
+    type: 'multiple-choice',
+    word,
+    correctAnswer: word.portuguese!,
+    options,
+  };
+}
+
+/**
+ * Blank the word (or an inflected form of it) in its example sentence, or
+ * in a lesson phrase that uses it. Returns null when no sentence fits.
+ */
+export function generateFillBlank(
+  word: QuizWord,
+  phrases: string[] = [],
+  random?: RandomSource
+): QuizQuestion | null {
+  const candidates = word.example ? [word.example] : [];
+  const phraseMatches = phrases.filter(p => p !== word.example);
+  candidates.push(...(random ? shuffle(phraseMatches, random) : phraseMatches));
+
+  for (const sentence of candidates) {
+    const blanked = blankWord(sentence, word.word);
+    if (blanked) {
+      return {
+        type: 'fill-blank',
+        word,
+        correctAnswer: blanked.answer,
+        acceptedAnswers: [blanked.answer],
+        sentence: blanked.sentence,
+      };
+    }
+  }
+
+  return null;
+}
+
+export function generateListening(
+  word: QuizWord,
+  allWords: QuizWord[],
+  random: RandomSource
+): QuizQuestion {
+  const wrongOptions = selectDistractors(word, allWords, {
+    mode: 'sound',
+    getText: w => w.word,
+    random,
+  });
+
+  const options = shuffle([...wrongOptions, word.word], random);
+
+  return {
+    type: 'listening',
+    word,
+    correctAnswer: word.word.toLowerCase(),
+    options,
+  };
+}
+
+export function generateReverseChoice(
+  word: QuizWord,
+  allWords: QuizWord[],
+  random: RandomSource
+): QuizQuestion {
+  // A word with the same translation would be a second right answer
+  const wrongOptions = selectDistractors(word, allWords.filter(w => !sharesTranslation(word, w)), {
+    mode: 'meaning',
+    getText: w => w.word,
+    random,
+  });
+
+  return {
+    type: 'reverse-choice',
+    word,
+    correctAnswer: word.word,
+    options: shuffle([...wrongOptions, word.word], random),
+  };
+}
+
+/**
+ * Typed recall of the English word from its translation, definition or
+ * sound. From a translation, any word with that translation is accepted.
+ */
+export function generateTypedRecall(
+  type: 'reverse-typed' | 'definition' | 'dictation',
+  word: QuizWord,
+  allWords: QuizWord[] = []
+): QuizQuestion {
+  const synonyms = type === 'reverse-typed' ? findSynonyms(word, allWords).map(w => w.word) : [];
+  return {
+    type,
+    word,
+    correctAnswer: word.word.toLowerCase(),
+    acceptedAnswers: [word.word, ...synonyms],
+  };
+}
+
+export function generateMatching(
+  word: QuizWord,
+  allWords: QuizWord[],
+  random: RandomSource
+): QuizQuestion {
+  const boardSize = Math.min(6, allWords.length);
+  if (boardSize < 4) {
+    return word.portuguese
+      ? generateMultipleChoice(word, allWords, random)
+      : generateListening(word, allWords, random);
+  }
+
+  const others = shuffle(allWords.filter(w => w.word !== word.word), random);
+  const boardWords = [word, ...others].slice(0, boardSize);
+
+  // Prefer translations; fall back to definitions when any word lacks one
+  const useTranslation = boardWords.every(w => w.portuguese);
+  const pairs: MatchingPair[] = [];
+  const seenMatches = new Set<string>();
+  for (const w of boardWords) {
+    const match = useTranslation ? w.portuguese : w.definition;
+    if (!match || seenMatches.has(match)) continue;
+    seenMatches.add(match);
+    pairs.push({ word: w.word, match });
+  }
+
+  if (pairs.length < 4) {
+    return word.portuguese
+      ? generateMultipleChoice(word, allWords, random)
+      : generateListening(word, allWords, random);
+  }
+
+  return {
+    type: 'matching',
+    word,
+    correctAnswer: pairs.map(p => `${p.word}=${p.match}`).join('; '),
+    options: shuffle(pairs.map(p => p.match), random),
+    pairs,
+    matchBy: useTranslation ? 'portuguese' : 'definition',
+  };
+}
+
+function hasEnoughOptions(question: QuizQuestion): boolean {
+  return question.type === 'matching' || (question.options?.length ?? 0) >= MIN_CHOICE_OPTIONS;
+}
+
+/**
+ * Generate a question of the given type, switching to another configured
+ * type when the word can't support it (no translation, no usable sentence,
+ * too few distinct options). Dictation is the last resort: it only needs
+ * the word itself.
+ */
+export function generateQuestion(
+  type: QuizType,
+  word: QuizWord,
+  words: QuizWord[],
+  config: QuizConfig,
+  random: RandomSource
+): QuizQuestion {
+  let choice: QuizQuestion | null = null;
+  switch (type) {
+    case 'multiple-choice':
+      if (word.portuguese) choice = generateMultipleChoice(word, words, random);
+      break;
+    case 'fill-blank': {
+      const question = generateFillBlank(word, config.phrases, random);
+      if (question) return question;
+      break;
+    }
+    case 'listening':
+      choice = generateListening(word, words, random);
+      break;
+    case 'matching':
+      choice = generateMatching(word, words, random);
+      break;
+    case 'reverse-choice':
+      if (word.portuguese) choice = generateReverseChoice(word, words, random);
+      break;
+    case 'reverse-typed':
+      if (word.portuguese) return generateTypedRecall(type, word, words);
+      break;
+    case 'definition':
+      if (word.definition) return generateTypedRecall(type, word);
+      break;
+    case 'dictation':
+      return generateTypedRecall(type, word);
+  }
+  if (choice && hasEnoughOptions(choice)) return choice;
+
+  const fallbackTypes = config.types.filter(t => t !== type && t !== 'fill-blank');
+  const fallback = fallbackTypes.length > 0 ? pick(fallbackTypes, random) : 'dictation';
+  return generateQuestion(fallback, word, words, { ...config, types: fallbackTypes }, random);
+}
+
+/**
+ * Pick a question type for a word. In adaptive mode, words answered
+ * correctly several times in a row get progressively harder types.
+ */
+export function pickQuestionType(word: QuizWord, config: QuizConfig, random: RandomSource): QuizType {
+  const streak = config.streaks?.[word.word] ?? 0;
+  if (streak === 0) return pick(config.types, random);
+
+  const byDifficulty = QUIZ_TYPE_DIFFICULTY.filter(type => config.types.includes(type));
+  return byDifficulty[Math.min(streak, byDifficulty.length - 1)];
+}
+
+/**
+ * Re-ask a missed word using a different question type than before
+ */
+export function generateRetryQuestion(
+  word: QuizWord,
+  previousType: QuizType,
+  retryOf: number,
+  words: QuizWord[],
+  config: QuizConfig,
+  random: RandomSource
+): QuizQuestion {
+  // Matching boards bring in other words, so they're never used for retries
+  const types = config.types.filter(type => type !== previousType && type !== 'matching');
+  const retryTypes: QuizType[] = types.length > 0 ? types : ['multiple-choice', 'listening'];
+  const question = generateQuestion(pick(retryTypes, random), word, words, { ...config, types: retryTypes }, random);
+  return { ...question, retryOf };
+}
+
+/**
+ * Generate a full round of questions. Returns an empty round only when
+ * none of the words can be asked (no words, or all of them blank).
+ */
+export function generateQuiz(
+  words: QuizWord[],
+  config: QuizConfig,
+  seed: QuizSeed
+): QuizQuestion[] {
+  const usable = words.filter(w => w.word?.trim());
+  if (usable.length === 0) return [];
+
+  const roundConfig = config.types.length > 0 ? config : { ...config, types: DEFAULT_QUIZ_TYPES };
+  const random = createRandom(seed);
+  const selected = shuffle(usable, random).slice(0, Math.min(roundConfig.questionCount, usable.length));
+
+  return selected.map(word =>
+    generateQuestion(pickQuestionType(word, roundConfig, random), word, usable, roundConfig, random)
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Quiz Hints
+ * Progressive hint ladder for quiz questions: first letter, letter pattern,
+ * context (example or definition), then eliminating two wrong options
+ */
+
+import { blankAllForms } from '@/lib/inflections';
+import type { QuizQuestion } from '@/lib/quizEngine';
+
+export type HintKind = 'first-letter' | 'pattern' | 'context' | 'eliminate';
+
+export interface QuizHint {
+  kind: HintKind;
+  text: string;
+  eliminated?: string[]; // Options removed by an 'eliminate' hint
+}
+
+// Score lost per hint used on a question
+export const HINT_PENALTY = 0.25;
+
+/**
+ * Points for a question: 1 when correct, minus the hint penalty
+ */
+export function scoreWithHints(correct: boolean, hintsUsed: number): number {
+  if (!correct) return 0;
+  return Math.max(0, 1 - hintsUsed * HINT_PENALTY);
+}
+
+function letterPattern(answer: string): string {
+  return answer
+    .split('')
+    .map((char, idx) => (idx === 0 || !/\p{L}/u.test(char) ? char : '_'))
+    .join(' ');
+}
+
+/**
+ * Build the hint ladder for a question. Matching boards get no hints.
+ */
+export function getHintLadder(question: QuizQuestion): QuizHint[] {
+  if (question.type === 'matching') return [];
+
+  const answer = question.correctAnswer;
+  const letterCount = answer.replace(/[^\p{L}]/gu, '').length;
+  const hints: QuizHint[] = [
+    {
+      kind: 'first-letter',
+      text: `Começa com "${answer.charAt(0).toUpperCase()}"`,
+    },
+    {
+      kind: 'pattern',
+      text: `${letterPattern(answer)} (${letterCount} letras)`,
+    },
+  ];
+
+  // Don't repeat what the question already shows
+  const context = question.type === 'fill-blank'
+    ? question.word.definition
+    : question.type === 'definition'
+    ? question.word.example
+    : question.word.example ?? question.word.definition;
+  if (context) {
+    const blanked = blankAllForms(context, question.word.word);
+    hints.push({ kind: 'context', text: blanked });
+  }
+
+  if (question.options && question.options.length > 2) {
+    const wrongOptions = question.options.filter(
+      option => option.toLowerCase() !== answer.toLowerCase()
+    );
+    const eliminated = wrongOptions.slice(0, Math.min(2, wrongOptions.length - 1));
+    if (eliminated.length > 0) {
+      hints.push({
+        kind: 'eliminate',
+        text: `${eliminated.length === 1 ? 'Uma opção eliminada' : 'Duas opções eliminadas'}`,
+        eliminated,
+      });
+    }
+  }
+
+  return hints;
+}
@@ -0,0 +1,56 @@
+/**
+ * Quiz → Spaced Repetition Bridge
+ * Maps quiz answers to review qualities and records them in the SRS schedule
+ */
+
+import { ReviewQuality } from '@/lib/spacedRepetition';
+import { TYPED_QUIZ_TYPES, type QuizType } from '@/lib/quizEngine';
+import { recordReview } from '@/lib/reviewLog';
+
+export interface QuizOutcome {
+  word: string;
+  type: QuizType;
+  correct: boolean;
+  almost?: boolean; // Typed answer with a small typo
+  hintsUsed: number;
+  responseTimeMs: number;
+}
+
+const FAST_RECALL_MS = 5000;
+const SLOW_RECALL_MS = 15000;
+const SLOW_RECOGNITION_MS = 8000;
+
+export function mapOutcomeToQuality(outcome: QuizOutcome): ReviewQuality {
+  if (!outcome.correct) return ReviewQuality.AGAIN;
+  if (outcome.hintsUsed > 0 || outcome.almost) return ReviewQuality.HARD;
+
+  // Typed recall is stronger evidence of knowing a word than picking it from options
+  const isRecall = TYPED_QUIZ_TYPES.includes(outcome.type);
+  if (outcome.responseTimeMs > (isRecall ? SLOW_RECALL_MS : SLOW_RECOGNITION_MS)) {
+    return ReviewQuality.HARD;
+  }
+  if (isRecall && outcome.responseTimeMs <= FAST_RECALL_MS) {
+    return ReviewQuality.EASY;
+  }
+  return ReviewQuality.GOOD;
+}
+
+/**
+ * Record one review per word. When a word appears more than once
+ * (matching boards, retries), only its first outcome is used; words
+ * without an SRS card are skipped.
+ * Returns the words that became leeches.
+ */
+export function recordQuizOutcomes(outcomes: QuizOutcome[]): string[] {
+  const seen = new Set<string>();
+  const leeches: string[] = [];
+  for (const outcome of outcomes) {
+    if (seen.has(outcome.word)) continue;
+    seen.add(outcome.word);
+    const recorded = recordReview(outcome.word, mapOutcomeToQuality(outcome), {
+      timeSpentMs: outcome.responseTimeMs,
+    });
+    if (recorded?.becameLeech) leeches.push(outcome.word);
+  }
+  return leeches;
+}
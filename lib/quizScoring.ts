@@ -0,0 +1,39 @@
+/**
+ * Quiz Scoring
+ * Speed-round points: base points, speed bonus and streak multiplier
+ */
+
+export const BASE_POINTS = 100;
+export const MAX_SPEED_BONUS = 50;
+
+/**
+ * Bonus for answering quickly, scaled by how much of the time limit was left
+ */
+export function speedBonus(responseTimeMs: number, timeLimitMs: number): number {
+  if (timeLimitMs <= 0) return 0;
+  const remaining = Math.max(0, 1 - responseTimeMs / timeLimitMs);
+  return Math.round(remaining * MAX_SPEED_BONUS);
+}
+
+/**
+ * Multiplier for consecutive correct answers
+ */
+export function streakMultiplier(streak: number): number {
+  if (streak >= 10) return 3;
+  if (streak >= 5) return 2;
+  if (streak >= 3) return 1.5;
+  return 1;
+}
+
+/**
+ * Points for one answer in a timed round. `streak` includes this answer.
+ */
+export function computeSpeedPoints(
+  correct: boolean,
+  responseTimeMs: number,
+  streak: number,
+  timeLimitMs: number
+): number {
+  if (!correct) return 0;
+  return Math.round((BASE_POINTS + speedBonus(responseTimeMs, timeLimitMs)) * streakMultiplier(streak));
+}
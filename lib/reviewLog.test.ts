@@ -0,0 +1,101 @@
+/**
+ * Review Log Tests
+ * recordReview logs intervals from the card itself and never drops history
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DAY_MS, ReviewQuality } from '@/lib/srsConstants';
+import { MemoryStorage } from '@/lib/memoryStorage';
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+
+async function loadLog() {
+  vi.resetModules();
+  const { SpacedRepetitionSystem } = await import('@/lib/spacedRepetition');
+  await SpacedRepetitionSystem.init();
+  const { ReviewLog, recordReview } = await import('@/lib/reviewLog');
+  return { SRS: SpacedRepetitionSystem, ReviewLog, recordReview };
+}
+
+describe('recordReview', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  it('takes the previous interval from a card reviewed before the log existed', async () => {
+    localStorage.setItem('vocab112_srs_cards', JSON.stringify([
+      { word: 'house', lessonDay: 1, nextReview: T0, interval: 12, easeFactor: 2.5, repetitions: 3 },
+    ]));
+    const { SRS, ReviewLog, recordReview } = await loadLog();
+
+    recordReview('house', ReviewQuality.AGAIN, { timestamp: T0 });
+
+    expect(ReviewLog.getEntries()).toEqual([
+      expect.objectContaining({ word: 'house', previousInterval: 12, newInterval: 1 }),
+    ]);
+    expect(SRS.getCard('house')?.lapses).toBe(1);
+  });
+
+  it('counts lapses from the card and reports when it becomes a leech', async () => {
+    localStorage.setItem('vocab112_srs_cards', JSON.stringify([
+      { word: 'house', lessonDay: 1, nextReview: T0, interval: 6, easeFactor: 2.5, repetitions: 2, lapses: 7 },
+    ]));
+    const { SRS, recordReview } = await loadLog();
+    SRS.addCards(['dog'], 1, T0);
+
+    // A new card rated AGAIN has nothing to forget yet
+    expect(recordReview('dog', ReviewQuality.AGAIN, { timestamp: T0 })?.becameLeech).toBe(false);
+    expect(SRS.getCard('dog')?.lapses).toBe(0);
+
+    expect(SRS.isLeech('house')).toBe(false);
+    expect(recordReview('house', ReviewQuality.AGAIN, { timestamp: T0 })?.becameLeech).toBe(true);
+    expect(SRS.getCard('house')?.lapses).toBe(8);
+    expect(SRS.getLeeches().map(card => card.word)).toEqual(['house']);
+  });
+
+  it('logs the new interval relative to the review time', async () => {
+    const { SRS, ReviewLog, recordReview } = await loadLog();
+    SRS.addCards(['dog'], 1, T0);
+
+    recordReview('dog', ReviewQuality.GOOD, { timestamp: T0 });
+    recordReview('dog', ReviewQuality.GOOD, { timestamp: T0 + DAY_MS });
+
+    expect(ReviewLog.getEntries().map(entry => [entry.previousInterval, entry.newInterval])).toEqual([
+      [0, 1],
+      [1, 6],
+    ]);
+  });
+
+  it('skips words that have no card', async () => {
+    const { SRS, ReviewLog, recordReview } = await loadLog();
+    const { DailyLimits } = await import('@/lib/dailyLimits');
+
+    expect(recordReview('ghost', ReviewQuality.GOOD, { timestamp: T0 })).toBeNull();
+    expect(SRS.getCard('ghost')).toBeUndefined();
+    expect(ReviewLog.getEntries()).toEqual([]);
+    expect(DailyLimits.getTodayCounts(T0)).toMatchObject({ newCards: 0, reviews: 0 });
+  });
+
+  it('keeps every entry, however old', async () => {
+    const { SRS, ReviewLog, recordReview } = await loadLog();
+    SRS.addCards(['run'], 1, T0);
+
+    recordReview('run', ReviewQuality.GOOD, { timestamp: T0 });
+    recordReview('run', ReviewQuality.GOOD, { timestamp: T0 + 800 * DAY_MS });
+
+    expect(ReviewLog.getEntries()).toHaveLength(2);
+  });
+
+  it('leaves the graduating recall after a lapse out of true retention', async () => {
+    localStorage.setItem('vocab112_srs_cards', JSON.stringify([
+      { word: 'house', lessonDay: 1, nextReview: T0, interval: 12, easeFactor: 2.5, repetitions: 3 },
+    ]));
+    const { ReviewLog, recordReview } = await loadLog();
+
+    recordReview('house', ReviewQuality.AGAIN, { timestamp: T0 });
+    recordReview('house', ReviewQuality.GOOD, { timestamp: T0 + 10 * 60 * 1000, relearning: true });
+
+    expect(ReviewLog.getEntries()[1]).toMatchObject({ previousInterval: 1, relearning: true });
+    expect(ReviewLog.getTrueRetention(30, T0 + DAY_MS)).toBe(0);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Review Log
+ * Append-only history of every review, with the statistics derived from it
+ * (true retention, reviews per day, answer time, per-card history).
+ * The only removal is undo taking back the review it just recorded; the
+ * entry stays behind marked as removed so sync drops it on other devices too.
+ */
+
+import { SpacedRepetitionSystem, ReviewQuality, LEECH_THRESHOLD } from '@/lib/spacedRepetition';
+import { DAY_MS } from '@/lib/srsConstants';
+import { notifyReviewChange, subscribeExternalChanges } from '@/lib/reviewStore';
+import { profileStorageKey } from '@/lib/profiles';
+
+export interface ReviewLogEntry {
+  word: string;
+  timestamp: number;
+  quality: ReviewQuality;
+  previousInterval: number; // Days; 0 for a card's first review
+  newInterval: number; // Days until the card is due again
+  timeSpentMs: number;
+  relearning?: boolean; // Recall that ended in-session relearning after a lapse
+  removed?: true; // Taken back by undo; hidden from getEntries
+}
+
+export interface DailyReviewCount {
+  date: string; // YYYY-MM-DD, local time
+  count: number;
+  correct: number;
+}
+
+const STORAGE_KEY = 'vocab112_review_log';
+
+export function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function roundDays(ms: number): number {
+  return Math.max(0, Math.round((ms / DAY_MS) * 100) / 100);
+}
+
+export class ReviewLog {
+  private static cache: ReviewLogEntry[] | null = null; // Removed entries included
+  private static live: ReviewLogEntry[] = [];
+  private static cacheKey: string | null = null; // Storage key of the cached profile
+
+  /**
+   * The active (or the given) profile's entries, oldest first, removed
+   * ones included (backup and sync)
+   */
+  static getRecords(profileId?: string): ReviewLogEntry[] {
+    const key = profileStorageKey(STORAGE_KEY, profileId);
+    if (this.cache && this.cacheKey === key) return this.cache;
+    let records: ReviewLogEntry[] = [];
+    if (typeof localStorage !== 'undefined') {
+      try {
+        const stored = localStorage.getItem(key);
+        const parsed = stored ? JSON.parse(stored) : [];
+        records = Array.isArray(parsed) ? parsed : [];
+      } catch {
+        records = [];
+      }
+    }
+    this.setCache(key, records);
+    return records;
+  }
+
+  /**
+   * The active (or the given) profile's entries, oldest first
+   */
+  static getEntries(profileId?: string): ReviewLogEntry[] {
+    this.getRecords(profileId);
+    return this.live;
+  }
+
+  private static setCache(key: string, records: ReviewLogEntry[]): void {
+    this.cache = records;
+    this.live = records.filter(entry => !entry.removed);
+    this.cacheKey = key;
+  }
+
+  private static save(records: ReviewLogEntry[]): void {
+    const key = profileStorageKey(STORAGE_KEY);
+    this.setCache(key, records);
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(key, JSON.stringify(records));
+    } catch (error) {
+      console.error('Failed to save review log:', error);
+    }
+  }
+
+  static append(entry: ReviewLogEntry): void {
+    this.save([...this.getRecords(), entry]);
+  }
+
+  /**
+   * Take back an entry recorded by recordReview (review undo)
+   */
+  static remove(entry: ReviewLogEntry): void {
+    const records = this.getRecords();
+    let index = records.length - 1;
+    while (
+      index >= 0 &&
+      !(!records[index].removed &&
+        records[index].word === entry.word &&
+        records[index].timestamp === entry.timestamp &&
+        records[index].quality === entry.quality)
+    ) {
+      index--;
+    }
+    if (index < 0) return;
+    const removed: ReviewLogEntry = { ...records[index], removed: true };
+    this.save([...records.slice(0, index), removed, ...records.slice(index + 1)]);
+    notifyReviewChange();
+  }
+
+  static clear(): void {
+    this.save([]);
+    notifyReviewChange();
+  }
+
+  /**
+   * Replace the whole log (backup import, sync), oldest entry first
+   */
+  static replaceAll(entries: ReviewLogEntry[]): void {
+    this.save([...entries].sort((a, b) => a.timestamp - b.timestamp));
+    notifyReviewChange();
+  }
+
+  /**
+   * Forget the in-memory copy so the next read comes from storage
+   */
+  static invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Entries in the last `days` days (all entries when omitted)
+   */
+  static getRecent(days?: number, now: number = Date.now()): ReviewLogEntry[] {
+    const entries = this.getEntries();
+    if (days === undefined) return entries;
+    const since = now - days * DAY_MS;
+    return entries.filter(entry => entry.timestamp >= since);
+  }
+
+  static getCardHistory(word: string): ReviewLogEntry[] {
+    const key = word.toLowerCase();
+    return this.getEntries().filter(entry => entry.word.toLowerCase() === key);
+  }
+
+  /**
+   * Share of reviews of already-learned cards (interval of a day or more)
+   * that were recalled. New and relearning cards are left out, so this is
+   * the retention the schedule actually achieves. Null without data.
+   */
+  static getTrueRetention(days = 30, now: number = Date.now()): number | null {
+    const mature = this.getRecent(days, now).filter(
+      entry => entry.previousInterval >= 1 && !entry.relearning
+    );
+    if (mature.length === 0) return null;
+    const recalled = mature.filter(entry => entry.quality !== ReviewQuality.AGAIN).length;
+    return recalled / mature.length;
+  }
+
+  /**
+   * Review counts for each of the last `days` days, oldest first
+   */
+  static getReviewsPerDay(days = 7, now: number = Date.now()): DailyReviewCount[] {
+    const counts = new Map<string, DailyReviewCount>();
+    for (let offset = days - 1; offset >= 0; offset--) {
+      const date = toDateKey(now - offset * DAY_MS);
+      counts.set(date, { date, count: 0, correct: 0 });
+    }
+
+    for (const entry of this.getRecent(days, now)) {
+      const day = counts.get(toDateKey(entry.timestamp));
+      if (!day) continue;
+      day.count += 1;
+      if (entry.quality !== ReviewQuality.AGAIN) day.correct += 1;
+    }
+
+    return Array.from(counts.values());
+  }
+
+  static getReviewsToday(now: number = Date.now()): number {
+    const today = toDateKey(now);
+    return this.getRecent(1, now).filter(entry => toDateKey(entry.timestamp) === today).length;
+  }
+
+  /**
+   * Average time spent per review in ms, or null without data
+   */
+  static getAverageTimeMs(days = 30, now: number = Date.now()): number | null {
+    const timed = this.getRecent(days, now).filter(entry => entry.timeSpentMs > 0);
+    if (timed.length === 0) return null;
+    return timed.reduce((sum, entry) => sum + entry.timeSpentMs, 0) / timed.length;
+  }
+}
+
+export interface RecordedReview {
+  entry: ReviewLogEntry;
+  becameLeech: boolean; // This review's lapse made the card a leech
+}
+
+interface RecordReviewOptions {
+  timeSpentMs?: number;
+  timestamp?: number;
+  previousInterval?: number; // Falls back to the card's interval before this review
+  relearning?: boolean; // Graduation from in-session relearning, not a scheduled review
+}
+
+/**
+ * Review a card in the SRS and log the review with its old and new interval.
+ * Reports when the scheduler's lapse count makes the card a leech. Words
+ * without a card are not reviewed or logged; they return null.
+ */
+export function recordReview(
+  word: string,
+  quality: ReviewQuality,
+  { timeSpentMs = 0, timestamp = Date.now(), previousInterval, relearning }: RecordReviewOptions = {}
+): RecordedReview | null {
+  const before = SpacedRepetitionSystem.getCard(word);
+  const updated = SpacedRepetitionSystem.reviewCard(word, quality, timestamp);
+  if (!before || !updated) return null;
+
+  const entry: ReviewLogEntry = {
+    word,
+    timestamp,
+    quality,
+    previousInterval: previousInterval ?? before.interval,
+    newInterval: roundDays(updated.nextReview - timestamp),
+    timeSpentMs: Math.max(0, Math.round(timeSpentMs)),
+    ...(relearning ? { relearning: true } : {}),
+  };
+
+  ReviewLog.append(entry);
+  const becameLeech = before.lapses < LEECH_THRESHOLD && updated.lapses >= LEECH_THRESHOLD;
+  notifyReviewChange();
+  return { entry, becameLeech };
+}
+
+subscribeExternalChanges(() => ReviewLog.invalidate());
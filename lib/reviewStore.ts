@@ -0,0 +1,105 @@
+/**
+ * Review Store
+ * Change notifications for review data (cards, log, flags, limits), so
+ * widgets can re-read it without remounting. Changes made in other tabs
+ * arrive through BroadcastChannel and storage events.
+ *
+ * Anything that changes review data outside SpacedRepetitionSystem /
+ * recordReview / CardFlags / DailyLimits should call notifyReviewChange()
+ * afterwards.
+ */
+
+type Listener = () => void;
+
+const CHANNEL_NAME = 'vocab112_reviews';
+
+const listeners = new Set<Listener>();
+// Run before regular listeners when another tab changed the data (cache resets)
+const externalListeners = new Set<Listener>();
+// Run only for changes made in this tab (sync queues them for upload)
+const localListeners = new Set<Listener>();
+
+let version = 0;
+let channel: BroadcastChannel | null = null;
+let connected = false;
+
+function emit(): void {
+  version += 1;
+  listeners.forEach(listener => listener());
+}
+
+function handleExternalChange(): void {
+  externalListeners.forEach(listener => listener());
+  emit();
+}
+
+function handleStorage(event: StorageEvent): void {
+  // key is null when another tab cleared storage
+  if (event.key === null || event.key.startsWith('vocab112_')) {
+    handleExternalChange();
+  }
+}
+
+function connect(): void {
+  if (connected || typeof window === 'undefined') return;
+  connected = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = handleExternalChange;
+  }
+  window.addEventListener('storage', handleStorage);
+}
+
+/**
+ * Let subscribers (and other tabs) know review data changed
+ */
+export function notifyReviewChange(): void {
+  connect();
+  localListeners.forEach(listener => listener());
+  emit();
+  channel?.postMessage({ type: 'change', at: Date.now() });
+}
+
+/**
+ * Tell this tab's subscribers only, e.g. after re-reading data another
+ * tab wrote (announcing it again would bounce between tabs)
+ */
+export function emitReviewChange(): void {
+  emit();
+}
+
+export function subscribeReviewChanges(listener: Listener): () => void {
+  listeners.add(listener);
+  connect();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * For stores that cache data in memory: drop the cache when another tab writes
+ */
+export function subscribeExternalChanges(listener: Listener): () => void {
+  externalListeners.add(listener);
+  return () => externalListeners.delete(listener);
+}
+
+/**
+ * Changes this tab made itself (notifyReviewChange), not loads or
+ * changes arriving from other tabs
+ */
+export function subscribeLocalChanges(listener: Listener): () => void {
+  localListeners.add(listener);
+  connect();
+  return () => {
+    localListeners.delete(listener);
+  };
+}
+
+/**
+ * Increases on every change; a cheap snapshot for useSyncExternalStore
+ */
+export function getReviewVersion(): number {
+  return version;
+}
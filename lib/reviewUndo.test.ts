@@ -0,0 +1,68 @@
+/**
+ * Review Undo Tests
+ * Ratings are written right away and undo puts the stored state back
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReviewQuality } from '@/lib/srsConstants';
+import { MemoryStorage } from '@/lib/memoryStorage';
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+
+async function loadUndo() {
+  vi.resetModules();
+  const { SpacedRepetitionSystem } = await import('@/lib/spacedRepetition');
+  await SpacedRepetitionSystem.init();
+  const { ReviewLog } = await import('@/lib/reviewLog');
+  const { ReviewUndoStack } = await import('@/lib/reviewUndo');
+  return { SRS: SpacedRepetitionSystem, ReviewLog, ReviewUndoStack };
+}
+
+describe('ReviewUndoStack', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  it('writes each rating as soon as it is pushed', async () => {
+    const { SRS, ReviewLog, ReviewUndoStack } = await loadUndo();
+    SRS.addCards(['house'], 1, T0);
+    const stack = new ReviewUndoStack<string>();
+
+    stack.push('before', { word: 'house', quality: ReviewQuality.GOOD, timeSpentMs: 0, timestamp: T0 });
+
+    expect(SRS.getCard('house')).toMatchObject({ repetitions: 1, lastReview: T0 });
+    expect(ReviewLog.getEntries()).toHaveLength(1);
+  });
+
+  it('restores the card, its lapses and the log on undo', async () => {
+    localStorage.setItem('vocab112_srs_cards', JSON.stringify([
+      { word: 'house', lessonDay: 1, nextReview: T0, interval: 12, easeFactor: 2.5, repetitions: 3 },
+    ]));
+    const { SRS, ReviewLog, ReviewUndoStack } = await loadUndo();
+    const before = SRS.getCard('house');
+    const stack = new ReviewUndoStack<string>();
+
+    stack.push('before', { word: 'house', quality: ReviewQuality.AGAIN, timeSpentMs: 0, timestamp: T0 });
+    expect(SRS.getCard('house')?.lapses).toBe(1);
+
+    expect(stack.pop()?.snapshot).toBe('before');
+    // Restored as a new change, so sync prefers it over the reviewed copy
+    expect(SRS.getCard('house')).toEqual({ ...before, updatedAt: expect.any(Number) });
+    expect(ReviewLog.getEntries()).toEqual([]);
+  });
+
+  it('keeps only the latest entries, leaving older ratings written', async () => {
+    const { SRS, ReviewLog, ReviewUndoStack } = await loadUndo();
+    SRS.addCards(['a', 'b', 'c'], 1, T0);
+    const stack = new ReviewUndoStack<number>(undefined, undefined, 2);
+
+    ['a', 'b', 'c'].forEach((word, index) =>
+      stack.push(index, { word, quality: ReviewQuality.GOOD, timeSpentMs: 0, timestamp: T0 + index })
+    );
+    stack.pop();
+    stack.pop();
+
+    expect(stack.pop()).toBeUndefined();
+    expect(ReviewLog.getEntries().map(entry => entry.word)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Review Undo
+ * Undo stack for review sessions. Every rating is written to the SRS right
+ * away; the stack keeps the card as it was and the log entry the rating
+ * added, and undoing puts both back.
+ */
+
+import { SpacedRepetitionSystem, ReviewQuality, type ReviewCard } from '@/lib/spacedRepetition';
+import { ReviewLog, recordReview, type ReviewLogEntry } from '@/lib/reviewLog';
+
+export const MAX_UNDO = 10;
+
+export interface PendingReview {
+  word: string;
+  quality: ReviewQuality;
+  timeSpentMs: number;
+  timestamp: number;
+  relearning?: boolean; // Graduating recall after a lapse in this session
+}
+
+// Stored state from before a rating, and the log entry the rating added
+export interface CommittedReview {
+  word: string;
+  card: ReviewCard; // Lapse count included, so undo also takes back a new leech
+  entry: ReviewLogEntry;
+  becameLeech: boolean;
+}
+
+export interface UndoEntry<S> {
+  snapshot: S; // Session state from before the rating
+  review: CommittedReview | null; // Null for answers that don't touch the schedule
+}
+
+/**
+ * Write a rating, or return null when the word has no card to rate
+ */
+export function commitReview(review: PendingReview): CommittedReview | null {
+  const card = SpacedRepetitionSystem.getCard(review.word);
+  const recorded = recordReview(review.word, review.quality, {
+    timeSpentMs: review.timeSpentMs,
+    timestamp: review.timestamp,
+    relearning: review.relearning,
+  });
+  if (!card || !recorded) return null;
+  return { word: review.word, card, ...recorded };
+}
+
+/**
+ * Put the card and the log back as they were before the review
+ */
+export function revertReview(review: CommittedReview): void {
+  SpacedRepetitionSystem.restoreCard(review.card);
+  ReviewLog.remove(review.entry);
+}
+
+export class ReviewUndoStack<S> {
+  private entries: UndoEntry<S>[] = [];
+
+  constructor(
+    private readonly commit: (review: PendingReview) => CommittedReview | null = commitReview,
+    private readonly revert: (review: CommittedReview) => void = revertReview,
+    private readonly limit: number = MAX_UNDO
+  ) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Write the rating (if any) and remember how to take it back.
+   * The oldest entries drop off once the stack is full.
+   */
+  push(snapshot: S, review: PendingReview | null): CommittedReview | null {
+    const committed = review ? this.commit(review) : null;
+    this.entries.push({ snapshot, review: committed });
+    if (this.entries.length > this.limit) {
+      this.entries = this.entries.slice(-this.limit);
+    }
+    return committed;
+  }
+
+  /**
+   * Take back the latest rating, restoring what it changed in storage
+   */
+  pop(): UndoEntry<S> | undefined {
+    const entry = this.entries.pop();
+    if (entry?.review) this.revert(entry.review);
+    return entry;
+  }
+
+  /**
+   * Forget every entry; ratings already written stay written
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Scheduler Tests
+ * SM-2 and FSRS against a fixed clock, and migration between them
+ */
+
+import { describe, expect, it } from 'vitest';
+import { sm2Scheduler } from '@/lib/sm2Scheduler';
+import { fsrsScheduler } from '@/lib/fsrsScheduler';
+import { fromSM2Card, migrateState, previewIntervals } from '@/lib/scheduler';
+import { DAY_MS, ReviewQuality } from '@/lib/srsConstants';
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+
+describe('sm2Scheduler', () => {
+  it('schedules 1, 6 and then interval × ease days for repeated GOOD', () => {
+    const first = sm2Scheduler.review(sm2Scheduler.initialState(T0), ReviewQuality.GOOD, T0);
+    const second = sm2Scheduler.review(first, ReviewQuality.GOOD, first.due);
+    const third = sm2Scheduler.review(second, ReviewQuality.GOOD, second.due);
+
+    expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15]);
+    expect(first.due).toBe(T0 + DAY_MS);
+    expect(third.due).toBe(second.due + 15 * DAY_MS);
+    expect(third.easeFactor).toBeCloseTo(2.5);
+  });
+
+  it('starts a forgotten card over and counts the lapse', () => {
+    let state = sm2Scheduler.initialState(T0);
+    state = sm2Scheduler.review(state, ReviewQuality.GOOD, T0);
+    state = sm2Scheduler.review(state, ReviewQuality.GOOD, state.due);
+    const lapsed = sm2Scheduler.review(state, ReviewQuality.AGAIN, state.due);
+
+    expect(lapsed).toMatchObject({ interval: 1, reps: 0, lapses: 1, lastReview: state.due });
+    expect(lapsed.easeFactor).toBeCloseTo(1.96);
+  });
+
+  it('raises ease on EASY and lowers it on HARD', () => {
+    const start = sm2Scheduler.initialState(T0);
+    expect(sm2Scheduler.review(start, ReviewQuality.EASY, T0).easeFactor).toBeCloseTo(2.6);
+    expect(sm2Scheduler.review(start, ReviewQuality.HARD, T0).easeFactor).toBeCloseTo(2.36);
+  });
+});
+
+describe('fsrsScheduler', () => {
+  it('uses the FSRS-4.5 initial stability and difficulty for each rating', () => {
+    const start = fsrsScheduler.initialState(T0);
+    const byRating = [ReviewQuality.AGAIN, ReviewQuality.HARD, ReviewQuality.GOOD, ReviewQuality.EASY].map(
+      quality => fsrsScheduler.review(start, quality, T0)
+    );
+
+    expect(byRating.map(state => state.stability)).toEqual([0.4872, 1.4003, 3.7145, 13.8206]);
+    expect(byRating.map(state => state.difficulty)).toEqual([
+      expect.closeTo(7.6214),
+      expect.closeTo(6.3916),
+      expect.closeTo(5.1618),
+      expect.closeTo(3.932),
+    ]);
+    // At 90% desired retention the interval equals the stability
+    expect(byRating.map(state => state.interval)).toEqual([1, 1, 4, 14]);
+  });
+
+  it('grows stability on recall and shrinks it on a lapse', () => {
+    const first = fsrsScheduler.review(fsrsScheduler.initialState(T0), ReviewQuality.GOOD, T0);
+    expect(fsrsScheduler.retrievability(first, first.due)).toBeCloseTo(0.893, 3);
+
+    const second = fsrsScheduler.review(first, ReviewQuality.GOOD, first.due);
+    expect(second.stability).toBeCloseTo(14.8081, 3);
+    expect(second).toMatchObject({ interval: 15, reps: 2, lapses: 0, difficulty: 5.1618 });
+
+    const lapsed = fsrsScheduler.review(second, ReviewQuality.AGAIN, second.due);
+    expect(lapsed.stability).toBeCloseTo(3.1493, 3);
+    expect(lapsed.difficulty).toBeCloseTo(6.9012, 3);
+    expect(lapsed).toMatchObject({ interval: 3, reps: 0, lapses: 1 });
+  });
+});
+
+describe('lapses', () => {
+  it('counts the same lapses under SM-2 and FSRS', () => {
+    const ratings = [ReviewQuality.AGAIN, ReviewQuality.AGAIN, ReviewQuality.GOOD, ReviewQuality.AGAIN, ReviewQuality.AGAIN];
+    const lapsesUnder = (scheduler: typeof sm2Scheduler) =>
+      ratings.reduce((state, quality) => scheduler.review(state, quality, state.due), scheduler.initialState(T0)).lapses;
+
+    // Forgetting while still learning isn't a lapse; only the AGAIN after GOOD is
+    expect(lapsesUnder(sm2Scheduler)).toBe(1);
+    expect(lapsesUnder(fsrsScheduler)).toBe(1);
+  });
+});
+
+describe('migration', () => {
+  const legacyCard = {
+    nextReview: new Date(T0 + 10 * DAY_MS).toISOString(),
+    interval: 15,
+    easeFactor: 2.5,
+    repetitions: 3,
+  };
+
+  it('reads SM-2 cards without moving their due date', () => {
+    const state = fromSM2Card(legacyCard);
+    expect(state).toMatchObject({ due: T0 + 10 * DAY_MS, interval: 15, reps: 3, lapses: 0 });
+    expect(state.lastReview).toBe(T0 - 5 * DAY_MS);
+  });
+
+  it('converts SM-2 state to FSRS and back keeping the due date', () => {
+    const fsrs = migrateState(fromSM2Card(legacyCard), 'fsrs');
+    expect(fsrs.due).toBe(T0 + 10 * DAY_MS);
+    expect(fsrs.stability).toBe(15);
+    expect(fsrs.difficulty).toBeCloseTo(5);
+
+    const sm2 = migrateState({ ...fsrs, easeFactor: undefined }, 'sm2');
+    expect(sm2.due).toBe(T0 + 10 * DAY_MS);
+    expect(sm2.easeFactor).toBeCloseTo(2.5);
+  });
+
+  it('previews each rating without changing the state', () => {
+    const state = fromSM2Card(legacyCard);
+    const days = previewIntervals(state, fsrsScheduler, state.due);
+    expect(days[ReviewQuality.AGAIN]).toBeLessThan(days[ReviewQuality.GOOD]);
+    expect(days[ReviewQuality.GOOD]).toBeLessThan(days[ReviewQuality.EASY]);
+    expect(state.stability).toBeUndefined();
+  });
+});
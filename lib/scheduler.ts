@@ -0,0 +1,158 @@
+/**
+ * Review Schedulers
+ * Common interface for spaced repetition algorithms (SM-2, FSRS),
+ * per-user algorithm selection and migration of card state between them
+ */
+
+import { DAY_MS, ReviewQuality } from '@/lib/srsConstants';
+import { sm2Scheduler } from '@/lib/sm2Scheduler';
+import { fsrsScheduler } from '@/lib/fsrsScheduler';
+import { profileStorageKey } from '@/lib/profiles';
+
+export type SchedulerId = 'sm2' | 'fsrs';
+
+export interface SchedulingState {
+  due: number; // Timestamp of the next review
+  lastReview?: number;
+  interval: number; // Days between lastReview and due
+  reps: number; // Successful reviews in a row
+  lapses: number; // Times forgotten after being learned
+  // SM-2
+  easeFactor?: number;
+  // FSRS
+  stability?: number; // Days until retrievability drops to 90%
+  difficulty?: number; // 1 (easy) - 10 (hard)
+}
+
+export interface Scheduler {
+  id: SchedulerId;
+  label: string;
+  initialState(now: number): SchedulingState;
+  /**
+   * Pure: returns the next state without touching storage
+   */
+  review(state: SchedulingState, quality: ReviewQuality, now: number): SchedulingState;
+  /**
+   * Probability of recalling the card at `now` (0-1)
+   */
+  retrievability(state: SchedulingState, now: number): number;
+}
+
+const SCHEDULERS: Record<SchedulerId, Scheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler,
+};
+
+const PREFERENCE_KEY = 'vocab112_scheduler';
+
+export function getScheduler(id: SchedulerId): Scheduler {
+  return SCHEDULERS[id];
+}
+
+export function getPreferredSchedulerId(profileId?: string): SchedulerId {
+  if (typeof localStorage === 'undefined') return 'sm2';
+  const stored = localStorage.getItem(profileStorageKey(PREFERENCE_KEY, profileId));
+  return stored === 'fsrs' || stored === 'sm2' ? stored : 'sm2';
+}
+
+export function setPreferredSchedulerId(id: SchedulerId): void {
+  localStorage.setItem(profileStorageKey(PREFERENCE_KEY), id);
+}
+
+export function getPreferredScheduler(): Scheduler {
+  return getScheduler(getPreferredSchedulerId());
+}
+
+/**
+ * SM-2 fields as stored on existing review cards
+ */
+export interface SM2CardFields {
+  nextReview: number | string | Date;
+  lastReview?: number | string | Date;
+  interval?: number;
+  easeFactor?: number;
+  repetitions?: number;
+  lapses?: number;
+}
+
+function toTimestamp(value: number | string | Date): number {
+  return typeof value === 'number' ? value : new Date(value).getTime();
+}
+
+/**
+ * Read the scheduling state of an existing (SM-2) card
+ */
+export function fromSM2Card(card: SM2CardFields): SchedulingState {
+  const due = toTimestamp(card.nextReview);
+  const interval = card.interval ?? 0;
+  return {
+    due,
+    lastReview: card.lastReview !== undefined
+      ? toTimestamp(card.lastReview)
+      : interval > 0 ? due - interval * DAY_MS : undefined,
+    interval,
+    reps: card.repetitions ?? 0,
+    lapses: card.lapses ?? 0,
+    easeFactor: card.easeFactor ?? 2.5,
+  };
+}
+
+/**
+ * Convert a state to what the target scheduler expects.
+ * The due date is always kept, so switching algorithms never
+ * makes cards due earlier or later than they already were.
+ */
+export function migrateState(state: SchedulingState, to: SchedulerId): SchedulingState {
+  if (to === 'fsrs' && (state.stability === undefined || state.difficulty === undefined)) {
+    const easeFactor = state.easeFactor ?? 2.5;
+    return {
+      ...state,
+      // A card due in N days has been judged to survive N days
+      stability: Math.max(state.interval, 0.5),
+      // Ease 1.3 (hardest) -> 10, 2.5 (default) -> 5, higher -> easier
+      difficulty: Math.min(10, Math.max(1, 10 - (easeFactor - 1.3) * (5 / 1.2))),
+    };
+  }
+
+  if (to === 'sm2' && state.easeFactor === undefined) {
+    const difficulty = state.difficulty ?? 5;
+    return {
+      ...state,
+      easeFactor: Math.min(3, Math.max(1.3, 1.3 + (10 - difficulty) * (1.2 / 5))),
+    };
+  }
+
+  return state;
+}
+
+const QUALITIES = [ReviewQuality.AGAIN, ReviewQuality.HARD, ReviewQuality.GOOD, ReviewQuality.EASY];
+
+/**
+ * Dry run: the interval in days each rating would give, without saving anything
+ */
+export function previewIntervals(
+  state: SchedulingState,
+  scheduler: Scheduler = getPreferredScheduler(),
+  now: number = Date.now()
+): Record<ReviewQuality, number> {
+  const migrated = migrateState(state, scheduler.id);
+  return Object.fromEntries(
+    QUALITIES.map(quality => [quality, scheduler.review(migrated, quality, now).interval])
+  ) as Record<ReviewQuality, number>;
+}
+
+/**
+ * Short interval label for buttons: "<1 min", "10 min", "2d", "3 meses", "1.5 a"
+ */
+export function formatInterval(days: number): string {
+  const minutes = Math.round(days * 24 * 60);
+  if (minutes < 1) return '<1 min';
+  if (minutes < 60) return `${minutes} min`;
+  if (days < 1) return `${Math.round(minutes / 60)} h`;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) {
+    const months = Math.round(days / 30);
+    return `${months} ${months === 1 ? 'mês' : 'meses'}`;
+  }
+  return `${(days / 365).toFixed(1)} a`;
+}
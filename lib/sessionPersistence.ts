@@ -0,0 +1,60 @@
+/**
+ * Session Persistence
+ * Saves an in-progress review session so a reload can resume it.
+ * Sessions from a previous day are discarded. Ratings are written to the
+ * SRS as they are given, so only the session's queue is saved here.
+ */
+
+import { toDateKey } from '@/lib/reviewLog';
+import { profileStorageKey } from '@/lib/profiles';
+
+export interface SavedSession<S> {
+  version: 1;
+  date: string; // YYYY-MM-DD the session was started
+  savedAt: number;
+  state: S;
+}
+
+const STORAGE_KEY = 'vocab112_review_session';
+
+export class SessionStore {
+  static save<S>(state: S, now: number = Date.now()): void {
+    const saved: SavedSession<S> = {
+      version: 1,
+      date: toDateKey(now),
+      savedAt: now,
+      state,
+    };
+
+    try {
+      localStorage.setItem(profileStorageKey(STORAGE_KEY), JSON.stringify(saved));
+    } catch (error) {
+      console.error('Failed to save review session:', error);
+    }
+  }
+
+  /**
+   * Today's saved session, or null. Stale or unreadable sessions are cleared.
+   */
+  static load<S>(now: number = Date.now()): SavedSession<S> | null {
+    if (typeof localStorage === 'undefined') return null;
+
+    let saved: SavedSession<S> | null = null;
+    try {
+      const stored = localStorage.getItem(profileStorageKey(STORAGE_KEY));
+      saved = stored ? JSON.parse(stored) : null;
+    } catch {
+      saved = null;
+    }
+    if (!saved || saved.version !== 1 || saved.date !== toDateKey(now)) {
+      this.clear();
+      return null;
+    }
+    return saved;
+  }
+
+  static clear(): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.removeItem(profileStorageKey(STORAGE_KEY));
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * SM-2 Scheduler
+ * Classic SuperMemo 2 algorithm (1987)
+ */
+
+import { DAY_MS, ReviewQuality } from '@/lib/srsConstants';
+import type { Scheduler, SchedulingState } from '@/lib/scheduler';
+
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+// The four review buttons on the SM-2 0-5 grade scale
+const GRADES: Record<ReviewQuality, number> = {
+  [ReviewQuality.AGAIN]: 1,
+  [ReviewQuality.HARD]: 3,
+  [ReviewQuality.GOOD]: 4,
+  [ReviewQuality.EASY]: 5,
+};
+
+export const sm2Scheduler: Scheduler = {
+  id: 'sm2',
+  label: 'SM-2',
+
+  initialState(now) {
+    return { due: now, interval: 0, reps: 0, lapses: 0, easeFactor: INITIAL_EASE };
+  },
+
+  review(state, quality, now) {
+    const grade = GRADES[quality];
+    const easeFactor = state.easeFactor ?? INITIAL_EASE;
+    const nextEase = Math.max(
+      MIN_EASE,
+      easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+    );
+
+    let interval: number;
+    let reps: number;
+    let lapses = state.lapses;
+
+    if (grade < 3) {
+      // Forgotten: start over
+      interval = 1;
+      reps = 0;
+      if (state.reps > 0) lapses += 1;
+    } else {
+      reps = state.reps + 1;
+      if (reps === 1) interval = 1;
+      else if (reps === 2) interval = 6;
+      else interval = Math.round(state.interval * nextEase);
+    }
+
+    const next: SchedulingState = {
+      ...state,
+      due: now + interval * DAY_MS,
+      lastReview: now,
+      interval,
+      reps,
+      lapses,
+      easeFactor: nextEase,
+    };
+    return next;
+  },
+
+  retrievability(state, now) {
+    if (!state.lastReview || state.interval <= 0) return 0;
+    // SM-2 has no memory model; assume 90% recall at the due date
+    const elapsedDays = (now - state.lastReview) / DAY_MS;
+    return Math.pow(0.9, elapsedDays / state.interval);
+  },
+};
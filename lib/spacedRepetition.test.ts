@@ -0,0 +1,107 @@
+/**
+ * Spaced Repetition System Tests
+ * Ratings go through the learner's scheduler; stored cards keep their due dates
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DAY_MS, ReviewQuality } from '@/lib/srsConstants';
+import { MemoryStorage } from '@/lib/memoryStorage';
+import { MemoryCardRepository } from '@/lib/cardRepository';
+import type { ReviewCard } from '@/lib/spacedRepetition';
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+
+// Each test gets fresh storage and a fresh copy of the module-level caches
+async function loadSystem(repository = new MemoryCardRepository<ReviewCard>()) {
+  vi.resetModules();
+  const srs = await import('@/lib/spacedRepetition');
+  const scheduler = await import('@/lib/scheduler');
+  await srs.SpacedRepetitionSystem.init(repository);
+  return { SRS: srs.SpacedRepetitionSystem, setScheduler: scheduler.setPreferredSchedulerId };
+}
+
+describe('SpacedRepetitionSystem', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  it('adds new cards due right away and keeps existing ones', async () => {
+    const { SRS } = await loadSystem();
+    SRS.addCards(['house', 'dog'], 1, T0);
+    SRS.reviewCard('house', ReviewQuality.GOOD, T0);
+    SRS.addCards(['house', 'run'], 2, T0);
+
+    expect(SRS.getDueCards(T0).map(card => card.word).sort()).toEqual(['dog', 'run']);
+    expect(SRS.getCard('house')).toMatchObject({ lessonDay: 1, interval: 1, repetitions: 1 });
+    expect(SRS.getStats(T0)).toMatchObject({ totalCards: 3, newCards: 2, learningCards: 1 });
+  });
+
+  it('rates cards with the preferred scheduler', async () => {
+    const { SRS, setScheduler } = await loadSystem();
+    SRS.addCards(['house'], 1, T0);
+
+    setScheduler('fsrs');
+    const card = SRS.reviewCard('house', ReviewQuality.GOOD, T0);
+
+    expect(card).toMatchObject({ scheduler: 'fsrs', stability: 3.7145, interval: 4 });
+    expect(card?.nextReview).toBe(T0 + 4 * DAY_MS);
+  });
+
+  it('moves localStorage cards into the repository once', async () => {
+    localStorage.setItem('vocab112_srs_cards', JSON.stringify([
+      { word: 'house', lessonDay: 1, nextReview: T0, interval: 10, easeFactor: 2.5, repetitions: 3 },
+    ]));
+    const repository = new MemoryCardRepository<ReviewCard>();
+    const { SRS } = await loadSystem(repository);
+    SRS.reviewCard('house', ReviewQuality.GOOD, T0);
+    await Promise.resolve();
+
+    expect((await repository.get('house'))?.lastReview).toBe(T0);
+
+    // A second start doesn't copy the old cards over the reviewed one
+    const reloaded = await loadSystem(repository);
+    expect(reloaded.SRS.getCard('house')?.lastReview).toBe(T0);
+  });
+
+  it('converts stored SM-2 cards to FSRS without moving their due dates', async () => {
+    localStorage.setItem('vocab112_srs_cards', JSON.stringify([
+      { word: 'house', lessonDay: 1, nextReview: T0 + 3 * DAY_MS, interval: 10, easeFactor: 2.5, repetitions: 3 },
+    ]));
+    const repository = new MemoryCardRepository<ReviewCard>();
+    const { SRS } = await loadSystem(repository);
+
+    expect(SRS.getCard('house')).toMatchObject({ scheduler: 'sm2', nextReview: T0 + 3 * DAY_MS });
+
+    SRS.setScheduler('fsrs');
+    expect(SRS.getCard('house')).toMatchObject({ scheduler: 'fsrs', nextReview: T0 + 3 * DAY_MS, stability: 10 });
+    expect((await repository.get('house'))?.scheduler).toBe('fsrs');
+  });
+
+  it('previews a rating exactly as reviewCard commits it, without storing it', async () => {
+    const { SRS, setScheduler } = await loadSystem();
+    SRS.addCards(['house'], 1, T0);
+    setScheduler('fsrs');
+    const card = SRS.getCard('house')!;
+
+    const preview = SRS.previewReview(card, ReviewQuality.EASY, T0);
+    expect(SRS.getCard('house')).toEqual(card);
+    expect(SRS.reviewCard('house', ReviewQuality.EASY, T0)).toEqual(preview);
+  });
+
+  it('tells review store subscribers about every write', async () => {
+    const { SRS } = await loadSystem();
+    const { subscribeReviewChanges } = await import('@/lib/reviewStore');
+    const listener = vi.fn();
+    subscribeReviewChanges(listener);
+
+    SRS.addCards(['house'], 1, T0);
+    SRS.reviewCard('house', ReviewQuality.GOOD, T0);
+    SRS.setScheduler('fsrs');
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(3));
+  });
+
+  it('returns undefined for unknown words', async () => {
+    const { SRS } = await loadSystem();
+    expect(SRS.reviewCard('missing', ReviewQuality.GOOD, T0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Spaced Repetition System
+ * The learner's review cards and their schedule. Every rating goes
+ * through the scheduler the learner picked (SM-2 or FSRS, see
+ * lib/scheduler.ts); cards keep that scheduler's state and are converted,
+ * due date unchanged, when the learner switches algorithms.
+ *
+ * Cards live in a CardRepository (IndexedDB in the browser) with an
+ * in-memory copy for synchronous reads. Call `await SpacedRepetitionSystem.init()`
+ * at startup: it moves cards from the old localStorage store once and
+ * loads the active profile's cards. Reads before that finishes start the
+ * load themselves and see no cards until it is done; subscribers of the
+ * review store are told when the cards arrive.
+ */
+
+import {
+  fromSM2Card,
+  getPreferredSchedulerId,
+  getScheduler,
+  migrateState,
+  setPreferredSchedulerId,
+  type SchedulerId,
+  type SchedulingState,
+} from '@/lib/scheduler';
+import { DAY_MS, ReviewQuality } from '@/lib/srsConstants';
+import {
+  createCardRepository,
+  migrateLocalStorageCards,
+  readProfileCards,
+  type CardRepository
+} from '@/lib/cardRepository';
+import { emitReviewChange, notifyReviewChange, subscribeExternalChanges } from '@/lib/reviewStore';
+import { getActiveProfileId, profileStorageKey } from '@/lib/profiles';
+
+export { ReviewQuality };
+
+// Lapses before a card counts as a leech
+export const LEECH_THRESHOLD = 8;
+
+export interface ReviewCard {
+  word: string;
+  lessonDay: number;
+  nextReview: number; // Timestamp the card is due
+  lastReview?: number; // Unset until the first review
+  interval: number; // Days between lastReview and nextReview
+  repetitions: number; // Successful reviews in a row
+  lapses: number; // Times forgotten after being learned
+  scheduler: SchedulerId; // Algorithm the state below belongs to
+  // SM-2
+  easeFactor?: number;
+  // FSRS
+  stability?: number;
+  difficulty?: number;
+  updatedAt?: number; // Last change of any kind, undo included; sync keeps the latest
+}
+
+export interface ReviewStats {
+  totalCards: number;
+  masteredCards: number;
+  learningCards: number;
+  newCards: number;
+  dueToday: number;
+  dueThisWeek: number;
+}
+
+// Cards as stored by earlier versions: SM-2 fields only, dates possibly as strings
+type StoredCard = Omit<Partial<ReviewCard>, 'nextReview' | 'lastReview'> & {
+  nextReview?: number | string;
+  lastReview?: number | string;
+};
+
+// Where earlier versions kept every card, as one localStorage value
+const LEGACY_STORAGE_KEY = 'vocab112_srs_cards';
+
+// Interval (days) from which a card counts as mastered
+const MASTERED_INTERVAL_DAYS = 21;
+
+function toState(card: ReviewCard): SchedulingState {
+  return {
+    due: card.nextReview,
+    lastReview: card.lastReview,
+    interval: card.interval,
+    reps: card.repetitions,
+    lapses: card.lapses,
+    easeFactor: card.easeFactor,
+    stability: card.stability,
+    difficulty: card.difficulty,
+  };
+}
+
+function fromState(
+  card: Pick<ReviewCard, 'word' | 'lessonDay'>,
+  state: SchedulingState,
+  scheduler: SchedulerId
+): ReviewCard {
+  return {
+    word: card.word,
+    lessonDay: card.lessonDay,
+    nextReview: state.due,
+    lastReview: state.lastReview,
+    interval: state.interval,
+    repetitions: state.reps,
+    lapses: state.lapses,
+    scheduler,
+    easeFactor: state.easeFactor,
+    stability: state.stability,
+    difficulty: state.difficulty,
+  };
+}
+
+/**
+ * Read a stored card. Cards saved before schedulers existed only have
+ * SM-2 fields (nextReview possibly as a date string); they become SM-2
+ * cards with the same due date.
+ */
+function normalizeCard(raw: unknown): ReviewCard | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const card = raw as StoredCard;
+  if (typeof card.word !== 'string' || card.nextReview === undefined) return null;
+  if (card.scheduler === 'sm2' || card.scheduler === 'fsrs') return card as ReviewCard;
+
+  return fromState(
+    { word: card.word, lessonDay: card.lessonDay ?? 0 },
+    fromSM2Card({ ...card, nextReview: card.nextReview }),
+    'sm2'
+  );
+}
+
+/**
+ * The card's state in the given scheduler's terms, converted if needed
+ */
+function stateFor(card: ReviewCard, scheduler: SchedulerId): SchedulingState {
+  const state = toState(card);
+  return card.scheduler === scheduler ? state : migrateState(state, scheduler);
+}
+
+function endOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+export class SpacedRepetitionSystem {
+  private static cache: Map<string, ReviewCard> | null = null;
+  private static cacheKey: string | null = null; // Profile the cache belongs to
+  private static repository: CardRepository<ReviewCard> | null = null;
+  private static loading: Promise<void> | null = null;
+
+  /**
+   * Load the active profile's cards from `repository` (by default the
+   * profile's IndexedDB store, or the old localStorage store where
+   * IndexedDB won't open), after moving any cards left in the old
+   * localStorage store. Repeated calls for the same profile share one load.
+   */
+  static init(repository?: CardRepository<ReviewCard>): Promise<void> {
+    const key = profileStorageKey(LEGACY_STORAGE_KEY);
+    if (!repository && this.loading && this.cacheKey === key) return this.loading;
+
+    const target = repository ?? createCardRepository<ReviewCard>(undefined, key);
+    this.repository = target;
+    this.cache = new Map();
+    this.cacheKey = key;
+
+    const loading = (async () => {
+      try {
+        await migrateLocalStorageCards(key, target);
+        const stored = await target.getAll();
+        if (this.repository !== target) return; // Replaced by a newer init
+        stored.map(normalizeCard).forEach(card => {
+          // Cards written while loading are newer than the stored ones
+          if (card && !this.cache?.has(card.word)) this.cache?.set(card.word, card);
+        });
+      } catch (error) {
+        console.error('Failed to load review cards:', error);
+      }
+      emitReviewChange();
+    })();
+    this.loading = loading;
+    return loading;
+  }
+
+  /**
+   * Re-read the cards after another tab changed them. The current cards
+   * stay readable until the fresh copy is in.
+   */
+  static async reload(): Promise<void> {
+    // Another tab switched profile: load the new learner's cards instead
+    if (this.cacheKey !== null && this.cacheKey !== profileStorageKey(LEGACY_STORAGE_KEY)) return this.init();
+    const target = this.repository;
+    if (!target) return;
+    try {
+      const stored = await target.getAll();
+      if (this.repository !== target) return;
+      const fresh = new Map<string, ReviewCard>();
+      stored.map(normalizeCard).forEach(card => {
+        if (card) fresh.set(card.word, card);
+      });
+      this.cache = fresh;
+    } catch (error) {
+      console.error('Failed to load review cards:', error);
+    }
+    emitReviewChange();
+  }
+
+  private static load(): Map<string, ReviewCard> {
+    if (!this.cache || this.cacheKey !== profileStorageKey(LEGACY_STORAGE_KEY)) {
+      this.init();
+    }
+    return this.cache ?? new Map();
+  }
+
+  private static save(changes: ReviewCard[]): void {
+    const all = this.load();
+    const now = Date.now();
+    // Strictly later than the copy it replaces, even within one millisecond
+    const cards = changes.map(card => ({
+      ...card,
+      updatedAt: Math.max(now, (all.get(card.word)?.updatedAt ?? 0) + 1),
+    }));
+    cards.forEach(card => all.set(card.word, card));
+    const saved = this.repository?.putMany(cards) ?? Promise.resolve();
+    saved
+      .catch(error => console.error('Failed to save review cards:', error))
+      // Other tabs re-read once the write has landed
+      .then(() => notifyReviewChange());
+  }
+
+  static getAllCards(): ReviewCard[] {
+    return Array.from(this.load().values());
+  }
+
+  /**
+   * Every card of the given profile, e.g. to export one that isn't active.
+   * Another profile's cards are read as stored and not cached.
+   */
+  static async getAllCardsOf(profileId: string): Promise<ReviewCard[]> {
+    if (profileId === getActiveProfileId()) {
+      await this.init();
+      return this.getAllCards();
+    }
+    const stored = await readProfileCards<ReviewCard>(LEGACY_STORAGE_KEY, profileId);
+    return stored.map(normalizeCard).filter((card): card is ReviewCard => card !== null);
+  }
+
+  static getCard(word: string): ReviewCard | undefined {
+    return this.load().get(word);
+  }
+
+  /**
+   * Add new cards for a lesson's words, due right away. Words that
+   * already have a card keep their schedule.
+   */
+  static addCards(words: string[], lessonDay: number, now: number = Date.now()): void {
+    const existing = this.load();
+    const schedulerId = getPreferredSchedulerId();
+    const scheduler = getScheduler(schedulerId);
+    const added = words
+      .filter(word => word.trim() && !existing.has(word))
+      .map(word => fromState({ word, lessonDay }, scheduler.initialState(now), schedulerId));
+    if (added.length > 0) this.save(added);
+  }
+
+  /**
+   * Rate a card with the learner's scheduler and store the result.
+   * Returns the updated card, or undefined for an unknown word.
+   */
+  static reviewCard(word: string, quality: ReviewQuality, now: number = Date.now()): ReviewCard | undefined {
+    const card = this.getCard(word);
+    if (!card) return undefined;
+
+    const updated = this.previewReview(card, quality, now);
+    this.save([updated]);
+    return updated;
+  }
+
+  /**
+   * The card as reviewCard would leave it, without storing anything
+   */
+  static previewReview(card: ReviewCard, quality: ReviewQuality, now: number = Date.now()): ReviewCard {
+    const schedulerId = getPreferredSchedulerId();
+    const next = getScheduler(schedulerId).review(stateFor(card, schedulerId), quality, now);
+    return fromState(card, next, schedulerId);
+  }
+
+  /**
+   * Write back a card exactly as it was before a review (review undo)
+   */
+  static restoreCard(card: ReviewCard): void {
+    this.save([card]);
+  }
+
+  /**
+   * Cards forgotten LEECH_THRESHOLD times or more, most lapses first
+   */
+  static getLeeches(): ReviewCard[] {
+    return this.getAllCards()
+      .filter(card => card.lapses >= LEECH_THRESHOLD)
+      .sort((a, b) => b.lapses - a.lapses);
+  }
+
+  static isLeech(word: string): boolean {
+    return (this.getCard(word)?.lapses ?? 0) >= LEECH_THRESHOLD;
+  }
+
+  /**
+   * Clear a card's lapse count, e.g. after leech remediation
+   */
+  static resetLapses(word: string): void {
+    const card = this.getCard(word);
+    if (card && card.lapses > 0) this.save([{ ...card, lapses: 0 }]);
+  }
+
+  /**
+   * Replace every card (backup import). Cards in the old SM-2-only
+   * format are converted like stored ones.
+   */
+  static async replaceAll(cards: unknown[]): Promise<void> {
+    await this.init();
+    const fresh = new Map<string, ReviewCard>();
+    cards.map(normalizeCard).forEach(card => {
+      if (card) fresh.set(card.word, card);
+    });
+    this.cache = fresh;
+    try {
+      await this.repository?.clear();
+      await this.repository?.putMany(Array.from(fresh.values()));
+    } catch (error) {
+      console.error('Failed to save review cards:', error);
+    }
+    notifyReviewChange();
+  }
+
+  /**
+   * Switch the learner's scheduler and convert every card to it.
+   * Due dates stay as they are; only the next review uses the new model.
+   */
+  static setScheduler(schedulerId: SchedulerId): void {
+    setPreferredSchedulerId(schedulerId);
+    const converted = this.getAllCards()
+      .filter(card => card.scheduler !== schedulerId)
+      .map(card => fromState(card, stateFor(card, schedulerId), schedulerId));
+    if (converted.length > 0) this.save(converted);
+  }
+
+  static getDueCards(now: number = Date.now()): ReviewCard[] {
+    return this.getAllCards()
+      .filter(card => card.nextReview <= now)
+      .sort((a, b) => a.nextReview - b.nextReview);
+  }
+
+  /**
+   * Cards not due yet that come due within `days` days
+   */
+  static getUpcomingCards(days: number, now: number = Date.now()): ReviewCard[] {
+    const until = now + days * DAY_MS;
+    return this.getAllCards()
+      .filter(card => card.nextReview > now && card.nextReview <= until)
+      .sort((a, b) => a.nextReview - b.nextReview);
+  }
+
+  static getStats(now: number = Date.now()): ReviewStats {
+    const cards = this.getAllCards();
+    const today = endOfDay(now);
+    const week = endOfDay(now + 6 * DAY_MS);
+
+    return {
+      totalCards: cards.length,
+      masteredCards: cards.filter(card => card.interval >= MASTERED_INTERVAL_DAYS).length,
+      learningCards: cards.filter(
+        card => card.lastReview !== undefined && card.interval < MASTERED_INTERVAL_DAYS
+      ).length,
+      newCards: cards.filter(card => card.lastReview === undefined).length,
+      dueToday: cards.filter(card => card.nextReview <= today).length,
+      dueThisWeek: cards.filter(card => card.nextReview <= week).length,
+    };
+  }
+}
+
+subscribeExternalChanges(() => {
+  SpacedRepetitionSystem.reload();
+});
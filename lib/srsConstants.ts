@@ -0,0 +1,14 @@
+/**
+ * SRS Constants
+ * The rating scale and time unit shared by the SRS and every scheduler.
+ * Kept apart so the schedulers don't import the system that uses them.
+ */
+
+export enum ReviewQuality {
+  AGAIN = 0,
+  HARD = 1,
+  GOOD = 2,
+  EASY = 3,
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
@@ -0,0 +1,115 @@
+/**
+ * Sync Tests
+ * A client only ever syncs the profile it was created for, only queues
+ * this tab's own changes, and undo survives later syncs
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BackupData } from '@/lib/backup';
+import type { SyncAdapter, SyncSnapshot } from '@/lib/sync';
+import { MemoryStorage } from '@/lib/memoryStorage';
+import { ReviewQuality } from '@/lib/srsConstants';
+
+const T0 = Date.UTC(2025, 0, 1, 12);
+
+// In-memory server holding a single account
+class MemoryAdapter implements SyncAdapter {
+  snapshot: SyncSnapshot | null = null;
+  pushes: BackupData[] = [];
+
+  async pull(): Promise<SyncSnapshot | null> {
+    return this.snapshot;
+  }
+
+  async push(data: BackupData, baseRevision: number, deviceId: string): Promise<SyncSnapshot> {
+    this.pushes.push(data);
+    this.snapshot = { revision: baseRevision + 1, updatedAt: new Date(T0).toISOString(), deviceId, data };
+    return this.snapshot;
+  }
+}
+
+async function loadSync() {
+  vi.resetModules();
+  const { SpacedRepetitionSystem } = await import('@/lib/spacedRepetition');
+  await SpacedRepetitionSystem.init();
+  const { Profiles } = await import('@/lib/profiles');
+  const { SyncClient, SyncQueue } = await import('@/lib/sync');
+  const { ReviewLog } = await import('@/lib/reviewLog');
+  const { commitReview, revertReview } = await import('@/lib/reviewUndo');
+  return { SRS: SpacedRepetitionSystem, Profiles, SyncClient, SyncQueue, ReviewLog, commitReview, revertReview };
+}
+
+// Let the card writes save() starts without awaiting land
+async function settle() {
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('SyncClient', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  it("pushes the profile's data to its account", async () => {
+    const { SRS, SyncClient } = await loadSync();
+    SRS.addCards(['house'], 1, T0);
+    const adapter = new MemoryAdapter();
+
+    const result = await new SyncClient(adapter).sync();
+
+    expect(result).toMatchObject({ status: 'synced', pushed: true });
+    expect(adapter.pushes[0].cards).toEqual([expect.objectContaining({ word: 'house' })]);
+  });
+
+  it("leaves another profile's data out of the account", async () => {
+    const { SRS, Profiles, SyncClient, SyncQueue } = await loadSync();
+    const adapter = new MemoryAdapter();
+    const client = new SyncClient(adapter, { intervalMs: 0 });
+    const stop = client.start();
+    await client.sync();
+    adapter.pushes = [];
+
+    const other = Profiles.create('Ana');
+    await Profiles.switchTo(other.id);
+    await SRS.init();
+    SRS.addCards(['dog'], 1, T0);
+
+    expect(SyncQueue.hasPending(client.profileId)).toBe(false);
+    expect(await client.sync()).toMatchObject({ status: 'error', pushed: false });
+    expect(adapter.pushes).toEqual([]);
+    stop();
+  });
+
+  it('queues changes made in this tab but not loads', async () => {
+    const { SRS, SyncClient, SyncQueue } = await loadSync();
+    const client = new SyncClient(new MemoryAdapter(), { intervalMs: 0, debounceMs: 60_000 });
+    const stop = client.start();
+    await client.sync();
+
+    await SRS.reload();
+    expect(SyncQueue.hasPending(client.profileId)).toBe(false);
+
+    SRS.addCards(['house'], 1, T0);
+    await settle();
+    expect(SyncQueue.hasPending(client.profileId)).toBe(true);
+    stop();
+  });
+
+  it('keeps a review undone after it was synced', async () => {
+    const { SRS, SyncClient, ReviewLog, commitReview, revertReview } = await loadSync();
+    SRS.addCards(['house'], 1, T0);
+    const adapter = new MemoryAdapter();
+    const client = new SyncClient(adapter);
+    await client.sync();
+
+    const committed = commitReview({ word: 'house', quality: ReviewQuality.GOOD, timeSpentMs: 0, timestamp: T0 });
+    await client.sync();
+    revertReview(committed!);
+    await settle();
+    await client.sync();
+
+    expect(SRS.getCard('house')?.lastReview).toBeUndefined();
+    expect(ReviewLog.getEntries()).toEqual([]);
+    expect(adapter.snapshot?.data.cards).toEqual([expect.objectContaining({ word: 'house', lastReview: undefined })]);
+    expect(adapter.snapshot?.data.reviewLog).toEqual([expect.objectContaining({ word: 'house', removed: true })]);
+  });
+});
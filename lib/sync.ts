@@ -0,0 +1,375 @@
+/**
+ * Multi-Device Sync
+ * Keeps review cards, review history, card flags, completed lessons and
+ * streak data in step across devices through a SyncAdapter (see
+ * httpSyncAdapter for the HTTP one).
+ *
+ * Sync is snapshot based: pull the remote copy, merge it with the local
+ * data using the backup merge rules (latest change wins, histories are
+ * unioned, undone reviews stay removed), write the result locally and
+ * push it back. Changes made offline stay marked as pending and go out
+ * on the next successful sync.
+ *
+ * Changes this tab makes are noticed through the review store; loads and
+ * other tabs' writes are left to the tab that made them. A client belongs to one
+ * learner profile: it ignores changes, and stops a round, once another
+ * profile is active. startSync (lib/syncService.ts) runs one for the
+ * active profile with that profile's server settings.
+ */
+
+import {
+  mergeBackupData,
+  readBackupData,
+  repairBackupData,
+  writeBackupData,
+  type BackupData,
+  type BackupSection
+} from '@/lib/backup';
+import { notifyReviewChange, subscribeLocalChanges } from '@/lib/reviewStore';
+import { getActiveProfileId, profileStorageKey } from '@/lib/profiles';
+
+export const SYNC_SECTIONS: BackupSection[] = [
+  'cards',
+  'reviewLog',
+  'cardFlags',
+  'completedLessons',
+  'streakData',
+  'learnedWords',
+];
+
+export interface SyncSnapshot {
+  revision: number; // Assigned by the server, increases on every push
+  updatedAt: string;
+  deviceId: string; // Device that pushed this revision
+  data: BackupData;
+}
+
+export interface SyncAdapter {
+  /** Latest snapshot, or null when nothing was pushed yet */
+  pull(): Promise<SyncSnapshot | null>;
+  /**
+   * Store data as the next revision. Throws SyncConflictError when
+   * baseRevision is no longer the latest.
+   */
+  push(data: BackupData, baseRevision: number, deviceId: string): Promise<SyncSnapshot>;
+}
+
+export class SyncConflictError extends Error {
+  constructor(public readonly current: SyncSnapshot | null) {
+    super('Sync conflict: remote data changed');
+    this.name = 'SyncConflictError';
+  }
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'offline' | 'error';
+
+export interface SyncResult {
+  status: Exclude<SyncStatus, 'idle' | 'syncing'>;
+  revision?: number;
+  pulled: boolean; // Remote changes were applied locally
+  pushed: boolean;
+  error?: string;
+}
+
+interface SyncQueueState {
+  deviceId: string;
+  revision: number; // Last revision seen from the server
+  lastSyncedAt: number | null;
+  pendingSince: number | null; // Oldest change not yet pushed
+  pendingChanges: number;
+}
+
+const STORAGE_KEY = 'vocab112_sync_state';
+
+// Conflicting pushes retried before giving up until the next sync
+const MAX_ATTEMPTS = 3;
+
+const DEFAULT_DEBOUNCE_MS = 5000;
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+function createDeviceId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Persistent sync bookkeeping per profile: device id, last revision and
+ * the queue of local changes waiting to be pushed
+ */
+export class SyncQueue {
+  private static load(profileId: string): SyncQueueState {
+    try {
+      const stored = typeof localStorage !== 'undefined'
+        ? localStorage.getItem(profileStorageKey(STORAGE_KEY, profileId))
+        : null;
+      if (stored) return JSON.parse(stored);
+    } catch {
+      // Fall through to a fresh state
+    }
+    const state: SyncQueueState = {
+      deviceId: createDeviceId(),
+      revision: 0,
+      lastSyncedAt: null,
+      pendingSince: null,
+      pendingChanges: 0,
+    };
+    this.save(state, profileId);
+    return state;
+  }
+
+  private static save(state: SyncQueueState, profileId: string): void {
+    try {
+      localStorage.setItem(profileStorageKey(STORAGE_KEY, profileId), JSON.stringify(state));
+    } catch (error) {
+      console.error('Failed to save sync state:', error);
+    }
+  }
+
+  static getState(profileId: string = getActiveProfileId()): SyncQueueState {
+    return this.load(profileId);
+  }
+
+  static markPending(profileId: string = getActiveProfileId(), now: number = Date.now()): void {
+    const state = this.load(profileId);
+    this.save({
+      ...state,
+      pendingSince: state.pendingSince ?? now,
+      pendingChanges: state.pendingChanges + 1,
+    }, profileId);
+  }
+
+  static hasPending(profileId: string = getActiveProfileId()): boolean {
+    return this.load(profileId).pendingChanges > 0;
+  }
+
+  /**
+   * Record a successful sync that included the first `included` queued
+   * changes; anything queued after those stays pending
+   */
+  static markSynced(
+    revision: number,
+    included: number,
+    profileId: string = getActiveProfileId(),
+    now: number = Date.now()
+  ): void {
+    const state = this.load(profileId);
+    const remaining = Math.max(0, state.pendingChanges - included);
+    this.save({
+      ...state,
+      revision,
+      lastSyncedAt: now,
+      pendingSince: remaining > 0 ? state.pendingSince : null,
+      pendingChanges: remaining,
+    }, profileId);
+  }
+
+  static reset(profileId: string = getActiveProfileId()): void {
+    try {
+      localStorage.removeItem(profileStorageKey(STORAGE_KEY, profileId));
+    } catch {
+      // Nothing to clear
+    }
+  }
+}
+
+function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  // fetch rejects with a TypeError when the request never reached the server
+  return error instanceof TypeError;
+}
+
+function sameData(a: BackupData, b: BackupData): boolean {
+  return SYNC_SECTIONS.every(section => JSON.stringify(a[section]) === JSON.stringify(b[section]));
+}
+
+export interface SyncClientOptions {
+  debounceMs?: number; // Wait after a local change before pushing
+  intervalMs?: number; // Pull other devices' changes this often; 0 disables
+  profileId?: string; // Learner whose data is synced; the active one by default
+}
+
+class ProfileChangedError extends Error {
+  constructor() {
+    super('Active profile changed during sync');
+    this.name = 'ProfileChangedError';
+  }
+}
+
+export class SyncClient {
+  private status: SyncStatus = 'idle';
+  private running: Promise<SyncResult> | null = null;
+  private applying = false;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private intervalTimer: ReturnType<typeof setInterval> | null = null;
+  private cleanup: Array<() => void> = [];
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  readonly profileId: string;
+
+  constructor(
+    private readonly adapter: SyncAdapter,
+    private readonly options: SyncClientOptions = {}
+  ) {
+    this.profileId = options.profileId ?? getActiveProfileId();
+  }
+
+  private isActiveProfile(): boolean {
+    return getActiveProfileId() === this.profileId;
+  }
+
+  // Local data is only ever read and written for the active profile
+  private assertActiveProfile(): void {
+    if (!this.isActiveProfile()) throw new ProfileChangedError();
+  }
+
+  /**
+   * Track local changes and sync in the background. Returns a stop function.
+   */
+  start(): () => void {
+    this.stop();
+    const { debounceMs = DEFAULT_DEBOUNCE_MS, intervalMs = DEFAULT_INTERVAL_MS } = this.options;
+
+    this.cleanup.push(
+      subscribeLocalChanges(() => {
+        // Our own write of merged data is not a new local change, and
+        // another learner's changes are not this client's to push
+        if (this.applying || !this.isActiveProfile()) return;
+        SyncQueue.markPending(this.profileId);
+        this.schedule(debounceMs);
+      })
+    );
+
+    if (typeof window !== 'undefined') {
+      const handleOnline = () => this.sync();
+      window.addEventListener('online', handleOnline);
+      this.cleanup.push(() => window.removeEventListener('online', handleOnline));
+    }
+
+    if (intervalMs > 0) {
+      this.intervalTimer = setInterval(() => this.sync(), intervalMs);
+    }
+
+    this.sync();
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.cleanup.forEach(fn => fn());
+    this.cleanup = [];
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    if (this.intervalTimer) clearInterval(this.intervalTimer);
+    this.debounceTimer = null;
+    this.intervalTimer = null;
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  onStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: SyncStatus): void {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.sync();
+    }, delayMs);
+  }
+
+  /**
+   * Run one pull-merge-push round. Concurrent calls share the same round.
+   */
+  sync(): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.run().then(result => {
+        this.running = null;
+        // Changes made while this round was in flight go out in the next one
+        if (result.status === 'synced' && this.cleanup.length > 0 && SyncQueue.hasPending(this.profileId)) {
+          this.schedule(this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+        }
+        return result;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(): Promise<SyncResult> {
+    this.setStatus('syncing');
+
+    let pulled = false;
+    try {
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        this.assertActiveProfile();
+        const remote = await this.adapter.pull();
+        this.assertActiveProfile();
+        const queued = SyncQueue.getState(this.profileId).pendingChanges;
+        const local = await readBackupData(SYNC_SECTIONS, this.profileId);
+        const remoteData = remote ? repairBackupData(remote.data).data : {};
+        // Local data goes second so it wins wherever the rules can't decide
+        const merged = mergeBackupData(remoteData, local);
+
+        if (!sameData(merged, local)) {
+          this.assertActiveProfile();
+          await this.apply(merged);
+          pulled = true;
+        }
+
+        if (remote && sameData(merged, remoteData)) {
+          SyncQueue.markSynced(remote.revision, queued, this.profileId);
+          this.setStatus('synced');
+          return { status: 'synced', revision: remote.revision, pulled, pushed: false };
+        }
+
+        try {
+          this.assertActiveProfile();
+          const { deviceId } = SyncQueue.getState(this.profileId);
+          const stored = await this.adapter.push(merged, remote?.revision ?? 0, deviceId);
+          SyncQueue.markSynced(stored.revision, queued, this.profileId);
+          this.setStatus('synced');
+          return { status: 'synced', revision: stored.revision, pulled, pushed: true };
+        } catch (error) {
+          // Another device pushed in between: merge again with its data
+          if (!(error instanceof SyncConflictError)) throw error;
+        }
+      }
+      throw new Error('Sync kept conflicting with other devices');
+    } catch (error) {
+      if (error instanceof ProfileChangedError) {
+        this.setStatus('idle');
+        return { status: 'error', pulled, pushed: false, error: error.message };
+      }
+      if (isOfflineError(error)) {
+        this.setStatus('offline');
+        return { status: 'offline', pulled, pushed: false };
+      }
+      console.error('Failed to sync:', error);
+      this.setStatus('error');
+      return {
+        status: 'error',
+        pulled,
+        pushed: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async apply(data: BackupData): Promise<void> {
+    this.applying = true;
+    try {
+      await writeBackupData(data);
+      notifyReviewChange();
+    } finally {
+      this.applying = false;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Sync Service
+ * Each profile's sync settings (server address, account, token) and the
+ * app's sync entry point. Call startSync() once at startup: it runs a
+ * SyncClient for the active profile when that profile has sync turned on,
+ * and replaces it when the learner switches profile or edits the settings,
+ * so one learner's data never goes to another learner's account.
+ */
+
+import { HttpSyncAdapter } from '@/lib/httpSyncAdapter';
+import { SyncClient } from '@/lib/sync';
+import { getActiveProfileId, profileStorageKey, Profiles } from '@/lib/profiles';
+import { subscribeReviewChanges } from '@/lib/reviewStore';
+
+export interface SyncSettings {
+  enabled: boolean;
+  baseUrl: string; // e.g. https://sync.example.com
+  userId: string; // Account on the server this profile syncs with
+  token?: string; // Bearer token, when the server requires one
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, baseUrl: '', userId: '' };
+
+const SETTINGS_KEY = 'vocab112_sync_settings';
+
+type Listener = () => void;
+
+const clientListeners = new Set<Listener>();
+
+let client: SyncClient | null = null;
+let clientConfig: string | null = null; // Profile and settings the client was built for
+let stopClient: (() => void) | null = null;
+let started = 0;
+let stopWatching: (() => void) | null = null;
+
+export function getSyncSettings(profileId: string = getActiveProfileId()): SyncSettings {
+  if (typeof localStorage === 'undefined') return DEFAULT_SYNC_SETTINGS;
+  try {
+    const stored = localStorage.getItem(profileStorageKey(SETTINGS_KEY, profileId));
+    return stored ? { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SYNC_SETTINGS;
+  } catch {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+}
+
+export function saveSyncSettings(
+  settings: SyncSettings,
+  profileId: string = getActiveProfileId()
+): void {
+  const cleaned: SyncSettings = {
+    enabled: settings.enabled,
+    baseUrl: settings.baseUrl.trim(),
+    userId: settings.userId.trim(),
+    ...(settings.token?.trim() ? { token: settings.token.trim() } : {}),
+  };
+  try {
+    localStorage.setItem(profileStorageKey(SETTINGS_KEY, profileId), JSON.stringify(cleaned));
+  } catch (error) {
+    console.error('Failed to save sync settings:', error);
+  }
+  refresh();
+}
+
+export function isSyncConfigured(settings: SyncSettings): boolean {
+  return settings.enabled && settings.baseUrl !== '' && settings.userId !== '';
+}
+
+/**
+ * The running client, or null when the active profile doesn't sync
+ */
+export function getSyncClient(): SyncClient | null {
+  return client;
+}
+
+/**
+ * Called whenever the running client is replaced or stopped
+ */
+export function onSyncClientChange(listener: Listener): () => void {
+  clientListeners.add(listener);
+  return () => {
+    clientListeners.delete(listener);
+  };
+}
+
+function setClient(next: SyncClient | null, config: string | null): void {
+  stopClient?.();
+  client = next;
+  clientConfig = config;
+  stopClient = next ? next.start() : null;
+  clientListeners.forEach(listener => listener());
+}
+
+// Make the running client match the active profile and its settings
+function refresh(): void {
+  if (started === 0) return;
+
+  const profileId = getActiveProfileId();
+  const settings = getSyncSettings(profileId);
+  const config = isSyncConfigured(settings) ? JSON.stringify([profileId, settings]) : null;
+  if (config === clientConfig) return;
+
+  const next = config
+    ? new SyncClient(
+        new HttpSyncAdapter({ baseUrl: settings.baseUrl, userId: settings.userId, token: settings.token }),
+        { profileId }
+      )
+    : null;
+  setClient(next, config);
+}
+
+/**
+ * Start syncing the active profile (if it has sync turned on) and keep
+ * following profile switches, including ones made in other tabs.
+ * Returns a stop function.
+ */
+export function startSync(): () => void {
+  started += 1;
+  if (started === 1) {
+    const unsubscribers = [
+      // Stop before storage points at the next profile
+      Profiles.onBeforeSwitch(() => setClient(null, null)),
+      Profiles.subscribe(refresh),
+      // Other tabs' switches and settings changes arrive here
+      subscribeReviewChanges(refresh),
+    ];
+    stopWatching = () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+  refresh();
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    started -= 1;
+    if (started === 0) {
+      stopWatching?.();
+      stopWatching = null;
+      setClient(null, null);
+    }
+  };
+}
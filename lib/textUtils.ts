@@ -0,0 +1,71 @@
+/**
+ * Text Utilities
+ * Normalization and string distance helpers shared by quiz modules
+ */
+
+/**
+ * Remove diacritics ("não" -> "nao", "café" -> "cafe")
+ */
+export function stripDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Lowercase, trim, strip accents and collapse whitespace
+ */
+export function normalizeText(text: string): string {
+  return stripDiacritics(text).toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Spelling similarity in [0, 1] (1 = identical)
+ */
+export function similarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshtein(a, b) / maxLength;
+}
+
+/**
+ * Rough English sound-alike key, good enough to find confusable words
+ * for listening questions ("right" ~ "write", "phone" ~ "fun")
+ */
+export function phoneticKey(word: string): string {
+  const key = normalizeText(word)
+    .replace(/[^a-z]/g, '')
+    .replace(/^kn|^gn|^pn/, 'n')
+    .replace(/^wr/, 'r')
+    .replace(/^wh/, 'w')
+    .replace(/ph/g, 'f')
+    .replace(/gh/g, '')
+    .replace(/ck/g, 'k')
+    .replace(/qu/g, 'kw')
+    .replace(/x/g, 'ks')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/c/g, 'k')
+    .replace(/z/g, 's')
+    .replace(/(.)\1+/g, '$1');
+
+  // Keep the first letter, drop the remaining vowels
+  return key.charAt(0) + key.slice(1).replace(/[aeiouy]/g, '');
+}
@@ -0,0 +1,171 @@
+/**
+ * Reference Sync Server
+ * Minimal self-hosted endpoint for HttpSyncAdapter. Stores one JSON file
+ * per user and rejects pushes based on an outdated revision (409), so
+ * clients re-merge instead of overwriting each other. Merging happens on
+ * the clients; the server only stores snapshots.
+ *
+ * Run: npx tsx server/syncServer.ts
+ *   PORT                 default 8787
+ *   SYNC_DATA_DIR        default ./sync-data
+ *   SYNC_TOKEN           require "Authorization: Bearer <token>" when set
+ *   SYNC_ALLOWED_ORIGIN  CORS origin, default *
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { timingSafeEqual } from 'node:crypto';
+import type { SyncSnapshot } from '@/lib/sync';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = resolve(process.env.SYNC_DATA_DIR ?? 'sync-data');
+const TOKEN = process.env.SYNC_TOKEN ?? '';
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN ?? '*';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Pushes for the same user run one at a time so revision checks can't race
+const userLocks = new Map<string, Promise<unknown>>();
+
+function withUserLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const previous = userLocks.get(userId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  userLocks.set(userId, next);
+  next.finally(() => {
+    if (userLocks.get(userId) === next) userLocks.delete(userId);
+  }).catch(() => undefined);
+  return next;
+}
+
+function snapshotPath(userId: string): string {
+  return join(DATA_DIR, `${userId}.json`);
+}
+
+async function loadSnapshot(userId: string): Promise<SyncSnapshot | null> {
+  try {
+    return JSON.parse(await readFile(snapshotPath(userId), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function saveSnapshot(userId: string, snapshot: SyncSnapshot): Promise<void> {
+  const path = snapshotPath(userId);
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(snapshot));
+  // Rename is atomic, so a crash never leaves a half-written file
+  await rename(tempPath, path);
+}
+
+function isAuthorized(request: IncomingMessage): boolean {
+  if (!TOKEN) return true;
+  const header = request.headers.authorization ?? '';
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  const received = Buffer.from(header);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Invalid JSON');
+  }
+}
+
+function send(response: ServerResponse, status: number, body?: unknown): void {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Cache-Control': 'no-store',
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+async function handlePush(userId: string, request: IncomingMessage): Promise<[number, unknown]> {
+  const body = await readJsonBody(request);
+  if (typeof body !== 'object' || body === null) throw new HttpError(400, 'Expected an object');
+
+  const { baseRevision, deviceId, data } = body as Record<string, unknown>;
+  if (typeof baseRevision !== 'number' || !Number.isInteger(baseRevision) || baseRevision < 0) {
+    throw new HttpError(400, 'baseRevision must be a non-negative integer');
+  }
+  if (typeof deviceId !== 'string' || deviceId === '') {
+    throw new HttpError(400, 'deviceId is required');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new HttpError(400, 'data must be an object');
+  }
+
+  return withUserLock(userId, async () => {
+    const current = await loadSnapshot(userId);
+    if ((current?.revision ?? 0) !== baseRevision) {
+      return [409, { current }];
+    }
+    const snapshot: SyncSnapshot = {
+      revision: baseRevision + 1,
+      updatedAt: new Date().toISOString(),
+      deviceId,
+      data,
+    };
+    await saveSnapshot(userId, snapshot);
+    return [200, snapshot];
+  });
+}
+
+async function handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  if (request.method === 'OPTIONS') return send(response, 204);
+
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  const match = /^\/sync\/([^/]+)$/.exec(pathname);
+  if (!match) throw new HttpError(404, 'Not found');
+
+  const userId = decodeURIComponent(match[1]);
+  if (!USER_ID_PATTERN.test(userId)) throw new HttpError(400, 'Invalid user id');
+  if (!isAuthorized(request)) throw new HttpError(401, 'Unauthorized');
+
+  if (request.method === 'GET') {
+    const snapshot = await loadSnapshot(userId);
+    return snapshot ? send(response, 200, snapshot) : send(response, 404, { error: 'No data yet' });
+  }
+  if (request.method === 'PUT') {
+    const [status, body] = await handlePush(userId, request);
+    return send(response, status, body);
+  }
+  throw new HttpError(405, 'Method not allowed');
+}
+
+const server = createServer((request, response) => {
+  handleRequest(request, response).catch(error => {
+    if (error instanceof HttpError) {
+      send(response, error.status, { error: error.message });
+    } else {
+      console.error('Sync request failed:', error);
+      send(response, 500, { error: 'Internal server error' });
+    }
+  });
+});
+
+mkdir(DATA_DIR, { recursive: true }).then(() => {
+  server.listen(PORT, () => {
+    console.log(`Vocab112 sync server on http://localhost:${PORT} (data in ${DATA_DIR})`);
+  });
+});